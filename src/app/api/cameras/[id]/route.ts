@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { cameraInputSchema } from "@/lib/cameras";
+import { deleteCamera, getCamera, updateCamera } from "@/lib/camera-store";
+import { clearRegions } from "@/lib/region-store";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** GET /api/cameras/:id - fetch a single camera */
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const camera = await getCamera(id);
+  if (!camera) {
+    return NextResponse.json({ error: "Camera not found" }, { status: 404 });
+  }
+  return NextResponse.json({ camera });
+}
+
+/** PUT /api/cameras/:id - rename a camera or change its source and resolution */
+export async function PUT(request: Request, { params }: Params) {
+  const { id } = await params;
+  const parsed = cameraInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const camera = await updateCamera(id, parsed.data);
+  if (!camera) {
+    return NextResponse.json({ error: "Camera not found" }, { status: 404 });
+  }
+  return NextResponse.json({ camera });
+}
+
+/** DELETE /api/cameras/:id - remove a camera together with its regions */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const deleted = await deleteCamera(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Camera not found" }, { status: 404 });
+  }
+  await clearRegions(id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { cameraInputSchema } from "@/lib/cameras";
+import { createCamera, listCameras } from "@/lib/camera-store";
+
+/** GET /api/cameras - list every camera */
+export async function GET() {
+  const cameras = await listCameras();
+  return NextResponse.json({ cameras });
+}
+
+/** POST /api/cameras - add a camera */
+export async function POST(request: Request) {
+  const parsed = cameraInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const camera = await createCamera(parsed.data);
+  return NextResponse.json({ camera }, { status: 201 });
+}
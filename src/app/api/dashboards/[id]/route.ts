@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_DASHBOARD_ID, dashboardInputSchema, dashboardUpdateSchema } from "@/lib/dashboards";
+import {
+  deleteDashboard,
+  getDashboard,
+  renameDashboard,
+  saveDashboard,
+} from "@/lib/dashboard-store";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** GET /api/dashboards/:id - fetch a dashboard's widgets and layout */
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const dashboard = await getDashboard(id);
+  if (!dashboard) {
+    return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+  }
+  return NextResponse.json({ dashboard });
+}
+
+/**
+ * PUT /api/dashboards/:id - save a dashboard's widgets and layout. Answers
+ * 409 with the stored copy when it was saved since `revision`.
+ */
+export async function PUT(request: Request, { params }: Params) {
+  const { id } = await params;
+  const parsed = dashboardUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const result = await saveDashboard(id, parsed.data);
+  if (!result) {
+    return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+  }
+  const { status, dashboard } = result;
+  return NextResponse.json({ dashboard }, { status: status === "conflict" ? 409 : 200 });
+}
+
+/** PATCH /api/dashboards/:id - rename a dashboard */
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const parsed = dashboardInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const dashboard = await renameDashboard(id, parsed.data.name);
+  if (!dashboard) {
+    return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+  }
+  return NextResponse.json({ dashboard });
+}
+
+/** DELETE /api/dashboards/:id - remove a dashboard; the default one (shown on /ask-ai) stays */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  if (id === DEFAULT_DASHBOARD_ID) {
+    return NextResponse.json({ error: "The default dashboard can't be deleted" }, { status: 409 });
+  }
+  const deleted = await deleteDashboard(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { copyDashboardContent, dashboardCreateSchema } from "@/lib/dashboards";
+import { createDashboard, getDashboard, listDashboards } from "@/lib/dashboard-store";
+
+/** GET /api/dashboards - list every dashboard */
+export async function GET() {
+  const dashboards = await listDashboards();
+  return NextResponse.json({ dashboards });
+}
+
+/**
+ * POST /api/dashboards - add a dashboard. With a `templateId` it starts with
+ * a copy of that dashboard's widgets and layout, otherwise empty.
+ */
+export async function POST(request: Request) {
+  const parsed = dashboardCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { name, templateId } = parsed.data;
+  const template = templateId ? await getDashboard(templateId) : null;
+  if (templateId && !template) {
+    return NextResponse.json({ error: "Template dashboard not found" }, { status: 404 });
+  }
+  const dashboard = await createDashboard(name, template ? copyDashboardContent(template) : undefined);
+  return NextResponse.json({ dashboard }, { status: 201 });
+}
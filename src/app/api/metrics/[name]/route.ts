@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { readMetric } from "@/lib/metrics";
+
+type Params = { params: Promise<{ name: string }> };
+
+/** GET /api/metrics/:name - current rows of a metric, for the chart widgets */
+export async function GET(_request: Request, { params }: Params) {
+  const { name } = await params;
+  const rows = await readMetric(name);
+  if (!rows) {
+    return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+  }
+  return NextResponse.json({ rows });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { regionPayloadSchema } from "@/lib/regions";
+import { deleteRegion, getRegion, updateRegion } from "@/lib/region-store";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** GET /api/regions/:id - fetch a single region */
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const region = await getRegion(id);
+  if (!region) {
+    return NextResponse.json({ error: "Region not found" }, { status: 404 });
+  }
+  return NextResponse.json({ region });
+}
+
+/** PUT /api/regions/:id - update the geometry of a single region */
+export async function PUT(request: Request, { params }: Params) {
+  const { id } = await params;
+  const parsed = regionPayloadSchema
+    .omit({ id: true })
+    .safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const region = await updateRegion(id, parsed.data);
+  if (!region) {
+    return NextResponse.json({ error: "Region not found" }, { status: 404 });
+  }
+  return NextResponse.json({ region });
+}
+
+/** DELETE /api/regions/:id - remove a single region */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const deleted = await deleteRegion(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Region not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
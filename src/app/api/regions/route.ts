@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_CAMERA_ID } from "@/lib/cameras";
+import { regionListSchema } from "@/lib/regions";
+import {
+  clearRegions,
+  listRegions,
+  replaceRegions,
+  upsertRegions,
+} from "@/lib/region-store";
+import { saveSnapshot } from "@/lib/snapshot-store";
+
+// Writes without a ?cameraId= go to the default camera
+const cameraIdOf = (request: Request) => new URL(request.url).searchParams.get("cameraId");
+
+// Region ids are unique across cameras; a camera can't take over another one's regions
+const conflictResponse = (ids: string[]) =>
+  NextResponse.json({ error: "Region ids belong to another camera", ids }, { status: 409 });
+
+/** GET /api/regions?cameraId= - list the saved regions of a camera, or of all cameras */
+export async function GET(request: Request) {
+  const regions = await listRegions(cameraIdOf(request) ?? undefined);
+  return NextResponse.json({ regions });
+}
+
+/**
+ * POST /api/regions?cameraId= - add regions (or update the camera's ones with a
+ * known id). An optional `snapshot` is stored and referenced from every region.
+ * Answers 409 when an id belongs to another camera's region.
+ */
+export async function POST(request: Request) {
+  const parsed = regionListSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { shapes, snapshot } = parsed.data;
+  const snapshotId = snapshot ? await saveSnapshot(snapshot) : undefined;
+  const result = await upsertRegions(cameraIdOf(request) ?? DEFAULT_CAMERA_ID, shapes, snapshotId);
+  if (result.status === "conflict") return conflictResponse(result.ids);
+  return NextResponse.json({ regions: result.regions }, { status: 201 });
+}
+
+/**
+ * PUT /api/regions?cameraId= - replace a camera's saved set with the canvas contents.
+ * An optional `snapshot` is stored and referenced from every region.
+ * Answers 409 when an id belongs to another camera's region.
+ */
+export async function PUT(request: Request) {
+  const parsed = regionListSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { shapes, snapshot } = parsed.data;
+  const snapshotId = snapshot ? await saveSnapshot(snapshot) : undefined;
+  const result = await replaceRegions(cameraIdOf(request) ?? DEFAULT_CAMERA_ID, shapes, snapshotId);
+  if (result.status === "conflict") return conflictResponse(result.ids);
+  return NextResponse.json({ regions: result.regions });
+}
+
+/** DELETE /api/regions?cameraId= - remove every saved region of a camera */
+export async function DELETE(request: Request) {
+  await clearRegions(cameraIdOf(request) ?? DEFAULT_CAMERA_ID);
+  return new NextResponse(null, { status: 204 });
+}
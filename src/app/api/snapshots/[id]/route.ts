@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { readSnapshotImage, type SnapshotImage } from "@/lib/snapshot-store";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/snapshots/:id?image=frame|annotated - the captured video frame a
+ * region was drawn on, raw or with the regions on top (the default).
+ */
+export async function GET(request: Request, { params }: Params) {
+  const { id } = await params;
+  const image = new URL(request.url).searchParams.get("image") ?? "annotated";
+  if (image !== "frame" && image !== "annotated") {
+    return NextResponse.json({ error: "image must be 'frame' or 'annotated'" }, { status: 400 });
+  }
+
+  const snapshot = await readSnapshotImage(id, image as SnapshotImage);
+  if (!snapshot) {
+    return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(snapshot.data), {
+    headers: {
+      "Content-Type": snapshot.mimeType,
+      // Snapshots never change once written
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
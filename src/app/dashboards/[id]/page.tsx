@@ -0,0 +1,28 @@
+"use client"
+import { use, useContext } from "react";
+import { AppSidebar } from "@/components/AppSidebar";
+import GridStack from "@/components/GridStack";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import HandleComponentContextProvider, { ComponentContext } from "@/store/handle-component-context";
+
+const DashboardTitle = () => {
+    const { name } = useContext(ComponentContext);
+    return <h1 className="text-center text-4xl">{name || "\u00a0"}</h1>;
+}
+
+const Page = ({ params }: { params: Promise<{ id: string }> }) => {
+    const { id } = use(params);
+    return (
+        // Keyed so that switching dashboards starts from a fresh, unloaded state
+        <HandleComponentContextProvider key={id} dashboardId={id}>
+        <SidebarProvider>
+            <AppSidebar />
+            <div className="px-4 flex flex-col">
+                <DashboardTitle />
+                <GridStack />
+            </div>
+        </SidebarProvider>
+    </HandleComponentContextProvider>
+    );
+}
+export default Page;
@@ -0,0 +1,7 @@
+import { redirect } from "next/navigation";
+import { DEFAULT_DASHBOARD_ID } from "@/lib/dashboards";
+
+/** /dashboards opens the default dashboard */
+export default function Page() {
+    redirect(`/dashboards/${DEFAULT_DASHBOARD_ID}`);
+}
@@ -3,39 +3,212 @@ import {
   SidebarContent,
   SidebarFooter,
   SidebarGroup,
+  SidebarGroupAction,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuAction,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar"
 import { ComponentContext } from "@/store/handle-component-context"
-import { useContext } from "react"
+import { useCallback, useContext, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { Copy, LayoutDashboard, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
 import AddSpeechRecognitionComponent from "../AddSpeechRecognition";
+import DashboardDialog, { type DashboardDialogMode } from "../DashboardDialog"
+import { listWidgets } from "../widgets"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu"
+import {
+  DASHBOARD_LIST_CHANNEL,
+  DEFAULT_DASHBOARD_ID,
+  dashboardChannelName,
+  type Dashboard,
+  type DashboardInput,
+  type DashboardMessage,
+} from "@/lib/dashboards"
 
+const dashboardPath = (id: string) => `/dashboards/${encodeURIComponent(id)}`
+
+/** Tell the other tabs that the list of dashboards changed */
+const announceListChange = () => {
+  const channel = new BroadcastChannel(DASHBOARD_LIST_CHANNEL)
+  channel.postMessage("changed")
+  channel.close()
+}
 
 export function AppSidebar() {
 
-  const { addComponent } = useContext(ComponentContext);
-  
+  const { addComponent, dashboardId } = useContext(ComponentContext);
+  const router = useRouter()
+  const [dashboards, setDashboards] = useState<Dashboard[]>([])
+  const [dialog, setDialog] = useState<{
+    open: boolean
+    mode: DashboardDialogMode
+    dashboard: Dashboard | null
+  }>({ open: false, mode: "create", dashboard: null })
+  const [pendingDelete, setPendingDelete] = useState<Dashboard | null>(null)
+
+  /** Fetch the dashboards; resolves to null when they could not be loaded */
+  const loadDashboards = useCallback(async () => {
+    try {
+      const res = await fetch("/api/dashboards")
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`)
+      const { dashboards } = (await res.json()) as { dashboards: Dashboard[] }
+      setDashboards(dashboards)
+      return dashboards
+    } catch (err) {
+      console.error("Failed to load dashboards:", err)
+      toast.error("Could not load the dashboards.")
+      return null
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDashboards()
+  }, [loadDashboards])
+
+  /** Reload whenever another tab changes the dashboards, leaving this one if it was deleted */
+  useEffect(() => {
+    const channel = new BroadcastChannel(DASHBOARD_LIST_CHANNEL)
+    channel.onmessage = async () => {
+      const dashboards = await loadDashboards()
+      if (!dashboards || dashboards.some((dashboard) => dashboard.id === dashboardId)) return
+      toast.info("This dashboard was deleted in another tab.")
+      router.replace(dashboardPath(DEFAULT_DASHBOARD_ID))
+    }
+    return () => channel.close()
+  }, [loadDashboards, dashboardId, router])
+
+  const handleSave = async ({ name }: DashboardInput) => {
+    const { mode, dashboard: target } = dialog
+    try {
+      const res = await fetch(
+        mode === "rename" && target ? `/api/dashboards/${encodeURIComponent(target.id)}` : "/api/dashboards",
+        {
+          method: mode === "rename" ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(mode === "duplicate" && target ? { name, templateId: target.id } : { name }),
+        }
+      )
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`)
+      const { dashboard } = (await res.json()) as { dashboard: Dashboard }
+
+      if (mode === "rename") {
+        setDashboards((prev) => prev.map((item) => (item.id === dashboard.id ? dashboard : item)))
+        // Pages showing the dashboard, in this tab too, pick up the new name
+        const channel = new BroadcastChannel(dashboardChannelName(dashboard.id))
+        channel.postMessage({ type: "renamed", name: dashboard.name } satisfies DashboardMessage)
+        channel.close()
+      } else {
+        setDashboards((prev) => [...prev, dashboard])
+        router.push(dashboardPath(dashboard.id))
+      }
+      announceListChange()
+      setDialog((prev) => ({ ...prev, open: false }))
+      toast.success(`Saved "${dashboard.name}".`)
+    } catch (err) {
+      console.error("Failed to save dashboard:", err)
+      toast.error("Could not save the dashboard. Please try again.")
+    }
+  }
+
+  const handleDelete = async () => {
+    const dashboard = pendingDelete
+    if (!dashboard) return
+    setPendingDelete(null)
+    try {
+      const res = await fetch(`/api/dashboards/${encodeURIComponent(dashboard.id)}`, { method: "DELETE" })
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`)
+    } catch (err) {
+      console.error("Failed to delete dashboard:", err)
+      toast.error("Could not delete the dashboard. Please try again.")
+      return
+    }
+
+    if (dashboard.id === dashboardId) router.push(dashboardPath(DEFAULT_DASHBOARD_ID))
+    setDashboards((prev) => prev.filter((item) => item.id !== dashboard.id))
+    announceListChange()
+    toast.success(`Deleted "${dashboard.name}".`)
+  }
 
   return (
     <Sidebar>
       <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Dashboards</SidebarGroupLabel>
+          <SidebarGroupAction
+            title="New dashboard"
+            onClick={() => setDialog({ open: true, mode: "create", dashboard: null })}
+          >
+            <Plus /> <span className="sr-only">New dashboard</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {dashboards.map((dashboard) => (
+                <SidebarMenuItem key={dashboard.id}>
+                  <SidebarMenuButton asChild isActive={dashboard.id === dashboardId}>
+                    <Link href={dashboardPath(dashboard.id)}>
+                      <LayoutDashboard />
+                      <span>{dashboard.name}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover>
+                        <MoreHorizontal />
+                        <span className="sr-only">{dashboard.name} options</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent side="right" align="start">
+                      <DropdownMenuItem onSelect={() => setDialog({ open: true, mode: "rename", dashboard })}>
+                        <Pencil className="mr-2 h-4 w-4" /> Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => setDialog({ open: true, mode: "duplicate", dashboard })}>
+                        <Copy className="mr-2 h-4 w-4" /> Duplicate as template
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onSelect={() => setPendingDelete(dashboard)}
+                        disabled={dashboard.id === DEFAULT_DASHBOARD_ID}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" /> Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
         <SidebarGroup />
         <SidebarGroupLabel>Application</SidebarGroupLabel>
         <SidebarGroupContent>
           <SidebarMenu>
-            <SidebarMenuItem>
-              <SidebarMenuButton className="cursor-pointer" onClick={() => addComponent("BarChartComponent")} asChild>
-                <span>Add Bar Chart Component</span>
-              </SidebarMenuButton>
-            </SidebarMenuItem>
-            <SidebarMenuItem>
-              <SidebarMenuButton className="cursor-pointer" onClick={() => addComponent("PieChartComponent")} asChild>
-                <span>Add Pie Chart Component</span>
-              </SidebarMenuButton>
-            </SidebarMenuItem>
+            {listWidgets().map((widget) => (
+              <SidebarMenuItem key={widget.id}>
+                <SidebarMenuButton className="cursor-pointer" onClick={() => addComponent(widget.id)}>
+                  <widget.icon />
+                  <span>Add {widget.name}</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            ))}
             <SidebarMenuItem>
               <SidebarMenuButton>
               <AddSpeechRecognitionComponent />
@@ -46,6 +219,30 @@ export function AppSidebar() {
         <SidebarGroup />
       </SidebarContent>
       <SidebarFooter />
+
+      <DashboardDialog
+        open={dialog.open}
+        onOpenChange={(open) => setDialog((prev) => ({ ...prev, open }))}
+        mode={dialog.mode}
+        dashboard={dialog.dashboard}
+        dashboardCount={dashboards.length}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its widgets and layout are removed for good. This can&apos;t be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Sidebar>
   )
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
 
 import {
   ChartConfig,
@@ -10,32 +10,30 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart"
-import { useContext } from "react"
+import { Database, Settings } from "lucide-react"
+import { useContext, useState } from "react"
 import { ComponentContext } from "@/store/handle-component-context"
+import ChartDataDialog from "../ChartDataDialog"
+import ChartSettingsDialog from "../ChartSettingsDialog"
+import { useChartData } from "@/hooks/use-chart-data"
+import { toChartData } from "@/lib/chart-data"
+import { formatCategory, formatValue, type ChartWidgetConfig } from "@/lib/chart-settings"
+import type { WidgetProps } from "@/lib/widget-registry"
 
-const chartData = [
-  { month: "January", desktop: 186, mobile: 80 },
-  { month: "February", desktop: 305, mobile: 200 },
-  { month: "March", desktop: 237, mobile: 120 },
-  { month: "April", desktop: 73, mobile: 190 },
-  { month: "May", desktop: 209, mobile: 130 },
-  { month: "June", desktop: 214, mobile: 140 },
-]
+export function BarChartComponent({id, config}: WidgetProps<ChartWidgetConfig>) {
 
-const chartConfig = {
-  desktop: {
-    label: "Desktop",
-    color: "#2563eb",
-  },
-  mobile: {
-    label: "Mobile",
-    color: "#60a5fa",
-  },
-} satisfies ChartConfig
-
-export function BarChartComponent({id}:{id:string}) {
+  const {deleteComponent, updateComponentConfig} = useContext(ComponentContext);
+  const [isDataDialogOpen, setIsDataDialogOpen] = useState(false)
+  const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false)
+  const {rows, error, isLoading} = useChartData(config.dataSource)
+  const {categoryField, series} = config.mapping
+  const {settings} = config
+  const isStacked = settings.barLayout === "stacked"
+  const chartData = toChartData(rows, config.mapping)
+  const chartConfig: ChartConfig = Object.fromEntries(
+    series.map(({field, label, color}) => [field, {label, color}])
+  )
 
-  const {deleteComponent} = useContext(ComponentContext);
     const handleDeleteComponent = (e: React.MouseEvent) => {
       e.stopPropagation();
       console.log("Delete event hit")
@@ -43,7 +41,7 @@ export function BarChartComponent({id}:{id:string}) {
     }
 
   return (
-    <div className="h-full w-full relative">
+    <div className="h-full w-full relative flex flex-col">
       <svg
         x="0px"
         y="0px"
@@ -74,22 +72,89 @@ export function BarChartComponent({id}:{id:string}) {
           </g>
         </g>
       </svg>
-      <ChartContainer config={chartConfig} className="h-full w-full">
+      <button
+        type="button"
+        title="Settings"
+        className="absolute top-1 right-6 z-10 no-drag text-[#242420] hover:cursor-pointer"
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsSettingsDialogOpen(true)
+        }}
+      >
+        <Settings className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        title="Data source"
+        className="absolute top-1 right-11 z-10 no-drag text-[#242420] hover:cursor-pointer"
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsDataDialogOpen(true)
+        }}
+      >
+        <Database className="w-4 h-4" />
+      </button>
+      {(settings.title || settings.description) && (
+        <div className="px-2 pt-1 pr-16">
+          {settings.title && <div className="truncate text-sm font-medium">{settings.title}</div>}
+          {settings.description && (
+            <div className="truncate text-xs text-muted-foreground">{settings.description}</div>
+          )}
+        </div>
+      )}
+      {chartData.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+          {isLoading ? "Loading data..." : error ?? "No data"}
+        </div>
+      )}
+      <ChartContainer config={chartConfig} className="min-h-0 w-full flex-1">
         <BarChart accessibilityLayer data={chartData}>
-          <CartesianGrid vertical={false} />
+          {settings.axis.showGrid && <CartesianGrid vertical={false} />}
           <XAxis
-            dataKey="month"
+            dataKey={categoryField}
             tickLine={false}
             tickMargin={10}
             axisLine={false}
-            tickFormatter={(value) => value.slice(0, 3)}
+            tickFormatter={(value) => formatCategory(value, settings.axis.categoryLabelLength)}
           />
-          <ChartTooltip content={<ChartTooltipContent />} />
-          <ChartLegend content={<ChartLegendContent />} />
-          <Bar dataKey="desktop" fill="var(--color-desktop)" radius={4} />
-          <Bar dataKey="mobile" fill="var(--color-mobile)" radius={4} />
+          {settings.axis.showValueAxis && (
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) => formatValue(value, settings.axis.valueFormat)}
+            />
+          )}
+          {settings.showTooltip && <ChartTooltip content={<ChartTooltipContent />} />}
+          {settings.showLegend && <ChartLegend content={<ChartLegendContent />} />}
+          {series.map(({field, color}, index) => (
+            <Bar
+              key={field}
+              dataKey={field}
+              fill={color}
+              stackId={isStacked ? "stack" : undefined}
+              // Only the top of a stack gets rounded corners
+              radius={!isStacked ? 4 : index === series.length - 1 ? [4, 4, 0, 0] : 0}
+            />
+          ))}
         </BarChart>
       </ChartContainer>
+      {settings.footer && (
+        <div className="truncate px-2 pb-1 text-xs text-muted-foreground">{settings.footer}</div>
+      )}
+      <ChartDataDialog
+        open={isDataDialogOpen}
+        onOpenChange={setIsDataDialogOpen}
+        config={config}
+        onSave={(next) => updateComponentConfig(id, next)}
+      />
+      <ChartSettingsDialog
+        open={isSettingsDialogOpen}
+        onOpenChange={setIsSettingsDialogOpen}
+        config={config}
+        chart="bar"
+        onSave={(next) => updateComponentConfig(id, next)}
+      />
     </div>
   )
 }
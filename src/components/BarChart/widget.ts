@@ -0,0 +1,36 @@
+import { ChartColumn } from "lucide-react"
+import { DEFAULT_CHART_SETTINGS, chartWidgetConfigSchema } from "@/lib/chart-settings"
+import { defineWidget } from "@/lib/widget-registry"
+import { BarChartComponent } from "."
+
+// Shown until the widget is given a data source
+const sampleRows = [
+  { month: "January", desktop: 186, mobile: 80 },
+  { month: "February", desktop: 305, mobile: 200 },
+  { month: "March", desktop: 237, mobile: 120 },
+  { month: "April", desktop: 73, mobile: 190 },
+  { month: "May", desktop: 209, mobile: 130 },
+  { month: "June", desktop: 214, mobile: 140 },
+]
+
+export const barChartWidget = defineWidget({
+  id: "BarChartComponent",
+  name: "Bar Chart",
+  icon: ChartColumn,
+  defaultSize: { w: 4, h: 2 },
+  minSize: { w: 2, h: 1 },
+  configSchema: chartWidgetConfigSchema,
+  defaultConfig: {
+    dataSource: { kind: "static", json: JSON.stringify(sampleRows, null, 2) },
+    mapping: {
+      categoryField: "month",
+      series: [
+        { field: "desktop", label: "Desktop", color: "#2563eb" },
+        { field: "mobile", label: "Mobile", color: "#60a5fa" },
+      ],
+    },
+    // The month names on the x axis are cut to Jan, Feb, ...
+    settings: { ...DEFAULT_CHART_SETTINGS, axis: { ...DEFAULT_CHART_SETTINGS.axis, categoryLabelLength: 3 } },
+  },
+  component: BarChartComponent,
+})
@@ -0,0 +1,170 @@
+/**
+ * CameraDialog
+ *
+ * Form for adding a camera or editing one: name, stream URL and the
+ * resolution the stream is expected to have.
+ * Validation runs through zod via react-hook-form.
+ */
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form";
+import { Input } from "../ui/input";
+import { DEFAULT_FRAME_SIZE } from "@/lib/regions";
+import { cameraInputSchema, type Camera, type CameraInput } from "@/lib/cameras";
+
+const toFormValues = (camera: Camera | null, index: number): CameraInput =>
+  camera
+    ? { name: camera.name, sourceUrl: camera.sourceUrl, resolution: camera.resolution }
+    : { name: `Camera ${index}`, sourceUrl: "", resolution: DEFAULT_FRAME_SIZE };
+
+type CameraFormProps = {
+  camera: Camera | null;
+  cameraCount: number;
+  onCancel: () => void;
+  onSave: (input: CameraInput) => Promise<void>;
+};
+
+/**
+ * Fields of the dialog. The dialog content unmounts when closed and this is
+ * keyed by the camera, so it starts from the edited camera (or fresh
+ * defaults) every time the dialog opens.
+ */
+function CameraForm({ camera, cameraCount, onCancel, onSave }: CameraFormProps) {
+  const form = useForm<CameraInput>({
+    resolver: zodResolver(cameraInputSchema),
+    defaultValues: toFormValues(camera, cameraCount + 1),
+  });
+
+  const handleSubmit = async (values: CameraInput) => {
+    await onSave(values);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="sourceUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Source URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://example.com/live/stream.m3u8" {...field} />
+              </FormControl>
+              <FormDescription>HLS or MP4 stream. Leave empty to use the webcam.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="resolution.width"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Width (px)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="resolution.height"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Height (px)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {camera ? "Save" : "Add camera"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+type CameraDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The camera being edited, or null to add a new one
+  camera: Camera | null;
+  cameraCount: number;
+  onSave: (input: CameraInput) => Promise<void>;
+};
+
+function CameraDialog({ open, onOpenChange, camera, cameraCount, onSave }: CameraDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{camera ? "Edit camera" : "Add camera"}</DialogTitle>
+          <DialogDescription>
+            Each camera has its own video source and its own set of regions.
+          </DialogDescription>
+        </DialogHeader>
+        <CameraForm
+          key={camera?.id ?? "new"}
+          camera={camera}
+          cameraCount={cameraCount}
+          onCancel={() => onOpenChange(false)}
+          onSave={onSave}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CameraDialog;
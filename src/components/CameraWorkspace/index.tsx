@@ -0,0 +1,351 @@
+"use client";
+
+/**
+ * CameraWorkspace
+ *
+ * The list of cameras of the scene and the drawing canvas of the selected
+ * one. Cameras can be browsed as tabs above the canvas or as a grid of
+ * thumbnails. Unsaved edits are kept per camera while switching, so only
+ * Submit decides what reaches the server.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { toast } from "sonner";
+import { LayoutGrid, MoreVertical, Pencil, Plus, Rows3, Trash2, Video } from "lucide-react";
+import DrawingCanvas from "../drawing-canvas";
+import CameraDialog from "../CameraDialog";
+import { Button } from "../ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { loadThumbnail, saveThumbnail, type Camera, type CameraInput } from "@/lib/cameras";
+import type { Shape } from "@/lib/regions";
+import { clearVideoSource } from "@/lib/video-source";
+
+type View = "tabs" | "grid";
+
+type CameraCardProps = {
+  camera: Camera;
+  thumbnail?: string;
+  isActive: boolean;
+  isDirty: boolean;
+  canDelete: boolean;
+  size: "sm" | "lg";
+  onSelect: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+};
+
+function CameraCard({
+  camera,
+  thumbnail,
+  isActive,
+  isDirty,
+  canDelete,
+  size,
+  onSelect,
+  onEdit,
+  onDelete,
+}: CameraCardProps) {
+  return (
+    <div
+      className={cn(
+        "group relative shrink-0 overflow-hidden rounded-md border bg-card",
+        size === "sm" ? "w-40" : "w-full",
+        isActive && "ring-2 ring-primary"
+      )}
+    >
+      <button type="button" className="block w-full text-left" onClick={onSelect}>
+        <div
+          className="flex w-full items-center justify-center bg-muted"
+          style={{ aspectRatio: `${camera.resolution.width} / ${camera.resolution.height}` }}
+        >
+          {thumbnail ? (
+            <Image
+              src={thumbnail}
+              alt=""
+              width={camera.resolution.width}
+              height={camera.resolution.height}
+              unoptimized
+              className="h-full w-full object-cover"
+            />
+          ) : (
+            <Video className="h-6 w-6 text-muted-foreground" />
+          )}
+        </div>
+        <div className="flex items-center gap-1.5 px-2 py-1.5 pr-8 text-sm">
+          {isDirty && (
+            <span className="h-2 w-2 shrink-0 rounded-full bg-amber-500" title="Unsaved changes" />
+          )}
+          <span className="truncate">{camera.name}</span>
+        </div>
+      </button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute bottom-0.5 right-0.5 h-7 w-7"
+            aria-label={`${camera.name} options`}
+          >
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={onEdit}>
+            <Pencil className="mr-2 h-4 w-4" /> Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={onDelete} disabled={!canDelete}>
+            <Trash2 className="mr-2 h-4 w-4" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+function CameraWorkspace() {
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [view, setView] = useState<View>("tabs");
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  // Unsaved shapes per camera, restored when switching back to it
+  const drafts = useRef(new Map<string, Shape[]>());
+  const [dirtyIds, setDirtyIds] = useState<Set<string>>(new Set());
+  const [dialog, setDialog] = useState<{ open: boolean; camera: Camera | null }>({
+    open: false,
+    camera: null,
+  });
+  const [pendingDelete, setPendingDelete] = useState<Camera | null>(null);
+
+  const activeCamera = cameras.find((camera) => camera.id === activeId) ?? null;
+
+  /** Load the cameras and their cached thumbnails */
+  useEffect(() => {
+    let ignore = false;
+    fetch("/api/cameras")
+      .then((res) => {
+        if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+        return res.json() as Promise<{ cameras: Camera[] }>;
+      })
+      .then(({ cameras }) => {
+        if (ignore) return;
+        setCameras(cameras);
+        setActiveId(cameras[0]?.id ?? null);
+        const cached: Record<string, string> = {};
+        for (const camera of cameras) {
+          const thumbnail = loadThumbnail(camera.id);
+          if (thumbnail) cached[camera.id] = thumbnail;
+        }
+        setThumbnails(cached);
+      })
+      .catch((err) => {
+        console.error("Failed to load cameras:", err);
+        toast.error("Could not load the cameras.");
+      });
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  /** Warn before leaving the page with unsaved edits on any camera */
+  useEffect(() => {
+    if (dirtyIds.size === 0) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [dirtyIds]);
+
+  const handleShapesChange = useCallback(
+    (shapes: Shape[], isDirty: boolean) => {
+      if (!activeId) return;
+      if (isDirty) drafts.current.set(activeId, shapes);
+      else drafts.current.delete(activeId);
+      setDirtyIds((prev) => {
+        if (prev.has(activeId) === isDirty) return prev;
+        const next = new Set(prev);
+        if (isDirty) next.add(activeId);
+        else next.delete(activeId);
+        return next;
+      });
+    },
+    [activeId]
+  );
+
+  const handleThumbnail = useCallback(
+    (dataUrl: string) => {
+      if (!activeId) return;
+      setThumbnails((prev) => ({ ...prev, [activeId]: dataUrl }));
+      saveThumbnail(activeId, dataUrl);
+    },
+    [activeId]
+  );
+
+  const selectCamera = (id: string) => {
+    setActiveId(id);
+    setView("tabs");
+  };
+
+  const handleSave = async (input: CameraInput) => {
+    const editing = dialog.camera;
+    try {
+      const res = await fetch(editing ? `/api/cameras/${editing.id}` : "/api/cameras", {
+        method: editing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      const { camera } = (await res.json()) as { camera: Camera };
+
+      if (editing) {
+        // A new stream URL takes over from whatever source was picked on the canvas
+        if (camera.sourceUrl !== editing.sourceUrl) clearVideoSource(camera.id);
+        setCameras((prev) => prev.map((item) => (item.id === camera.id ? camera : item)));
+      } else {
+        setCameras((prev) => [...prev, camera]);
+        selectCamera(camera.id);
+      }
+      setDialog({ open: false, camera: null });
+      toast.success(`Saved "${camera.name}".`);
+    } catch (err) {
+      console.error("Failed to save camera:", err);
+      toast.error("Could not save the camera. Please try again.");
+    }
+  };
+
+  const handleDelete = async () => {
+    const camera = pendingDelete;
+    if (!camera) return;
+    setPendingDelete(null);
+    try {
+      const res = await fetch(`/api/cameras/${camera.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+    } catch (err) {
+      console.error("Failed to delete camera:", err);
+      toast.error("Could not delete the camera. Please try again.");
+      return;
+    }
+
+    drafts.current.delete(camera.id);
+    setDirtyIds((prev) => {
+      const next = new Set(prev);
+      next.delete(camera.id);
+      return next;
+    });
+    saveThumbnail(camera.id, null);
+    clearVideoSource(camera.id);
+    const remaining = cameras.filter((item) => item.id !== camera.id);
+    setCameras(remaining);
+    if (activeId === camera.id) setActiveId(remaining[0]?.id ?? null);
+    toast.success(`Deleted "${camera.name}".`);
+  };
+
+  const renderCard = (camera: Camera, size: "sm" | "lg") => (
+    <CameraCard
+      key={camera.id}
+      camera={camera}
+      thumbnail={thumbnails[camera.id]}
+      isActive={camera.id === activeId}
+      isDirty={dirtyIds.has(camera.id)}
+      canDelete={cameras.length > 1}
+      size={size}
+      onSelect={() => selectCamera(camera.id)}
+      onEdit={() => setDialog({ open: true, camera })}
+      onDelete={() => setPendingDelete(camera)}
+    />
+  );
+
+  return (
+    <div className="flex w-full flex-col items-center gap-4">
+      <div className="flex w-full max-w-[1065px] items-center gap-2">
+        <h2 className="text-lg font-semibold">Cameras</h2>
+        <span className="text-sm text-muted-foreground">{cameras.length}</span>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant={view === "tabs" ? "secondary" : "outline"}
+            size="icon"
+            onClick={() => setView("tabs")}
+            aria-label="Tab view"
+            title="Tab view"
+          >
+            <Rows3 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={view === "grid" ? "secondary" : "outline"}
+            size="icon"
+            onClick={() => setView("grid")}
+            aria-label="Grid view"
+            title="Grid view"
+          >
+            <LayoutGrid className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setDialog({ open: true, camera: null })}>
+            <Plus className="mr-2 h-4 w-4" /> Add camera
+          </Button>
+        </div>
+      </div>
+
+      {view === "grid" ? (
+        <div className="grid w-full max-w-[1065px] grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+          {cameras.map((camera) => renderCard(camera, "lg"))}
+        </div>
+      ) : (
+        <>
+          <div className="flex w-full max-w-[1065px] gap-3 overflow-x-auto p-1">
+            {cameras.map((camera) => renderCard(camera, "sm"))}
+          </div>
+          {activeCamera && (
+            // One canvas at a time; its unsaved shapes come back from `drafts`
+            <DrawingCanvas
+              key={activeCamera.id}
+              camera={activeCamera}
+              draft={drafts.current.get(activeCamera.id)}
+              onShapesChange={handleShapesChange}
+              onThumbnail={handleThumbnail}
+            />
+          )}
+        </>
+      )}
+
+      <CameraDialog
+        open={dialog.open}
+        onOpenChange={(open) => setDialog((prev) => ({ ...prev, open }))}
+        camera={dialog.camera}
+        cameraCount={cameras.length}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The camera and all of its saved regions will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default CameraWorkspace;
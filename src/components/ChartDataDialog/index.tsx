@@ -0,0 +1,401 @@
+/**
+ * ChartDataDialog
+ *
+ * Two-step setup of a chart widget's data: first the source (static JSON,
+ * an uploaded CSV, a polled REST endpoint or one of this app's metric
+ * routes), then which fields are plotted and in what colors. The rows are
+ * loaded between the steps, so the field lists show what the source holds.
+ */
+
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+import { Textarea } from "../ui/textarea";
+import {
+  DATA_SOURCE_KINDS,
+  LOCAL_DATA_ROUTES,
+  MAX_CSV_LENGTH,
+  SERIES_COLORS,
+  dataSourceSchema,
+  listFields,
+  listNumericFields,
+  loadRows,
+  suggestMapping,
+  toFieldLabel,
+  type DataRow,
+  type DataSource,
+  type DataSourceKind,
+  type FieldMapping,
+} from "@/lib/chart-data";
+import { chartWidgetConfigSchema, type ChartWidgetConfig } from "@/lib/chart-settings";
+
+/** Everything typed into the source step, so switching tabs loses nothing */
+type SourceDraft = {
+  kind: DataSourceKind;
+  json: string;
+  fileName: string;
+  text: string;
+  url: string;
+  rowsPath: string;
+  path: string;
+  refreshSeconds: string;
+};
+
+const toDraft = (source: DataSource): SourceDraft => ({
+  kind: source.kind,
+  json: source.kind === "static" ? source.json : "[]",
+  fileName: source.kind === "csv" ? source.fileName : "",
+  text: source.kind === "csv" ? source.text : "",
+  url: source.kind === "rest" ? source.url : "",
+  rowsPath: source.kind === "rest" ? source.rowsPath : "",
+  path: source.kind === "route" ? source.path : LOCAL_DATA_ROUTES[0].path,
+  refreshSeconds: String(source.kind === "rest" || source.kind === "route" ? source.refreshSeconds : 30),
+});
+
+const fromDraft = (draft: SourceDraft) => {
+  switch (draft.kind) {
+    case "static":
+      return { kind: draft.kind, json: draft.json };
+    case "csv":
+      return { kind: draft.kind, fileName: draft.fileName, text: draft.text };
+    case "rest":
+      return {
+        kind: draft.kind,
+        url: draft.url,
+        rowsPath: draft.rowsPath,
+        refreshSeconds: Number(draft.refreshSeconds),
+      };
+    case "route":
+      return { kind: draft.kind, path: draft.path, refreshSeconds: Number(draft.refreshSeconds) };
+  }
+};
+
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+type ChartDataStepsProps = {
+  config: ChartWidgetConfig;
+  singleSeries: boolean;
+  onClose: () => void;
+  onSave: (config: ChartWidgetConfig) => void;
+};
+
+/**
+ * Contents of the dialog. They unmount with the closed dialog, so every
+ * opening starts at the source step from the saved settings.
+ */
+function ChartDataSteps({ config, singleSeries, onClose, onSave }: ChartDataStepsProps) {
+  const [step, setStep] = useState<"source" | "fields">("source");
+  const [draft, setDraft] = useState<SourceDraft>(() => toDraft(config.dataSource));
+  const [source, setSource] = useState<DataSource>(config.dataSource);
+  const [rows, setRows] = useState<DataRow[]>([]);
+  const [mapping, setMapping] = useState<FieldMapping>(config.mapping);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<SourceDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_CSV_LENGTH) {
+      setError(`The file is too large; keep it under ${Math.round(MAX_CSV_LENGTH / 1000)} kB.`);
+      return;
+    }
+    updateDraft({ fileName: file.name, text: await file.text() });
+  };
+
+  /** Check the source, load its rows and move on to the field mapping */
+  const handleNext = async () => {
+    const parsed = dataSourceSchema.safeParse(fromDraft(draft));
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Check the source settings.");
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const loaded = await loadRows(parsed.data);
+      if (loaded.length === 0) {
+        setError("The source has no rows.");
+        return;
+      }
+      const suggested = suggestMapping(loaded, mapping);
+      setSource(parsed.data);
+      setRows(loaded);
+      setMapping(singleSeries ? { ...suggested, series: suggested.series.slice(0, 1) } : suggested);
+      setError(null);
+      setStep("fields");
+    } catch (err) {
+      console.error("Failed to load chart data:", err);
+      setError(err instanceof Error ? err.message : "Could not load the data.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    const parsed = chartWidgetConfigSchema.safeParse({ ...config, dataSource: source, mapping });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Check the field mapping.");
+      return;
+    }
+    onSave(parsed.data);
+    onClose();
+  };
+
+  const fields = listFields(rows);
+  const valueFields = listNumericFields(rows).filter((field) => field !== mapping.categoryField);
+
+  const toggleSeries = (field: string, checked: boolean) => {
+    setError(null);
+    setMapping((prev) => {
+      if (!checked) return { ...prev, series: prev.series.filter((series) => series.field !== field) };
+      const existing = prev.series.find((series) => series.field === field);
+      const added = existing ?? {
+        field,
+        label: toFieldLabel(field),
+        color: SERIES_COLORS[valueFields.indexOf(field) % SERIES_COLORS.length],
+      };
+      if (singleSeries) return { ...prev, series: [added] };
+      // Keep the series in the order the source lists the fields
+      const series = [...prev.series, added];
+      return { ...prev, series: valueFields.flatMap((name) => series.filter((item) => item.field === name)) };
+    });
+  };
+
+  const updateSeries = (field: string, changes: { label?: string; color?: string }) => {
+    setMapping((prev) => ({
+      ...prev,
+      series: prev.series.map((series) => (series.field === field ? { ...series, ...changes } : series)),
+    }));
+  };
+
+  const changeCategory = (categoryField: string) => {
+    setError(null);
+    setMapping((prev) => ({
+      categoryField,
+      series: prev.series.filter((series) => series.field !== categoryField),
+    }));
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{step === "source" ? "Data source" : "Field mapping"}</DialogTitle>
+        <DialogDescription>
+          {step === "source"
+            ? DATA_SOURCE_KINDS[draft.kind].description
+            : `${rows.length} ${rows.length === 1 ? "row" : "rows"} loaded. Pick the fields to plot.`}
+        </DialogDescription>
+      </DialogHeader>
+
+      {step === "source" ? (
+        <Tabs value={draft.kind} onValueChange={(kind) => updateDraft({ kind: kind as DataSourceKind })}>
+          <TabsList className="grid w-full grid-cols-4">
+            {(Object.keys(DATA_SOURCE_KINDS) as DataSourceKind[]).map((kind) => (
+              <TabsTrigger key={kind} value={kind} className="text-xs">
+                {DATA_SOURCE_KINDS[kind].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value="static" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="chart-data-json">Rows</Label>
+            <Textarea
+              id="chart-data-json"
+              className="min-h-40 font-mono text-xs"
+              placeholder='[{ "month": "January", "total": 186 }]'
+              value={draft.json}
+              onChange={(e) => updateDraft({ json: e.target.value })}
+            />
+          </TabsContent>
+
+          <TabsContent value="csv" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="chart-data-csv">CSV file</Label>
+            <Input id="chart-data-csv" type="file" accept=".csv,text/csv" onChange={handleFile} />
+            <p className="text-sm text-muted-foreground">
+              {draft.fileName
+                ? `Using ${draft.fileName}. The file is saved with the dashboard.`
+                : "The file is saved with the dashboard; upload it again to update the chart."}
+            </p>
+          </TabsContent>
+
+          <TabsContent value="rest" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="chart-data-url">URL</Label>
+            <Input
+              id="chart-data-url"
+              placeholder="https://example.com/api/stats"
+              value={draft.url}
+              onChange={(e) => updateDraft({ url: e.target.value })}
+            />
+            <Label htmlFor="chart-data-rows-path">Path to the rows</Label>
+            <Input
+              id="chart-data-rows-path"
+              placeholder="data.items (empty when the response is the array)"
+              value={draft.rowsPath}
+              onChange={(e) => updateDraft({ rowsPath: e.target.value })}
+            />
+          </TabsContent>
+
+          <TabsContent value="route" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="chart-data-route">Metric</Label>
+            <Select value={draft.path} onValueChange={(path) => updateDraft({ path })}>
+              <SelectTrigger id="chart-data-route">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCAL_DATA_ROUTES.map((route) => (
+                  <SelectItem key={route.path} value={route.path}>
+                    {route.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TabsContent>
+
+          {(draft.kind === "rest" || draft.kind === "route") && (
+            <div className="flex flex-col gap-3 pt-3">
+              <Label htmlFor="chart-data-refresh">Refresh every (seconds, 0 to load once)</Label>
+              <Input
+                id="chart-data-refresh"
+                type="number"
+                min={0}
+                value={draft.refreshSeconds}
+                onChange={(e) => updateDraft({ refreshSeconds: e.target.value })}
+              />
+            </div>
+          )}
+        </Tabs>
+      ) : (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="chart-data-category">{singleSeries ? "Slice names" : "X axis (category)"}</Label>
+            <Select value={mapping.categoryField} onValueChange={changeCategory}>
+              <SelectTrigger id="chart-data-category">
+                <SelectValue placeholder="Pick a field" />
+              </SelectTrigger>
+              <SelectContent>
+                {fields.map((field) => (
+                  <SelectItem key={field} value={field}>
+                    {field}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>{singleSeries ? "Value" : "Values"}</Label>
+            {valueFields.length === 0 && (
+              <p className="text-sm text-muted-foreground">The rows have no other numeric fields.</p>
+            )}
+            {valueFields.map((field) => {
+              const series = mapping.series.find((item) => item.field === field);
+              return (
+                <div key={field} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`chart-data-series-${field}`}
+                    checked={!!series}
+                    onCheckedChange={(checked) => toggleSeries(field, checked === true)}
+                  />
+                  <Label htmlFor={`chart-data-series-${field}`} className="w-28 truncate font-normal">
+                    {field}
+                  </Label>
+                  <Input
+                    aria-label={`Label of ${field}`}
+                    className="h-8 flex-1"
+                    disabled={!series}
+                    value={series?.label ?? toFieldLabel(field)}
+                    onChange={(e) => updateSeries(field, { label: e.target.value })}
+                  />
+                  <Input
+                    aria-label={`Color of ${field}`}
+                    type="color"
+                    className="h-8 w-12 p-1"
+                    disabled={!series}
+                    value={series?.color ?? SERIES_COLORS[0]}
+                    onChange={(e) => updateSeries(field, { color: e.target.value })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        {step === "source" ? (
+          <>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleNext} disabled={isLoading}>
+              {isLoading ? "Loading..." : "Next"}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button type="button" variant="outline" onClick={() => setStep("source")}>
+              Back
+            </Button>
+            <Button type="button" onClick={handleSave}>
+              Save
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
+
+type ChartDataDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: ChartWidgetConfig;
+  // Charts like the pie plot a single value field
+  singleSeries?: boolean;
+  onSave: (config: ChartWidgetConfig) => void;
+};
+
+function ChartDataDialog({ open, onOpenChange, config, singleSeries = false, onSave }: ChartDataDialogProps) {
+  return (
+    // The dialog is portalled out of the grid item, but its events still bubble
+    // to it through React; without this, pressing inside it would drag the widget
+    <div className="contents" onMouseDown={stopPropagation} onTouchStart={stopPropagation}>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <ChartDataSteps
+            config={config}
+            singleSeries={singleSeries}
+            onClose={() => onOpenChange(false)}
+            onSave={onSave}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default ChartDataDialog;
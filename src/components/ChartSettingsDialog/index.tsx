@@ -0,0 +1,296 @@
+/**
+ * ChartSettingsDialog
+ *
+ * Per-widget settings of a chart: title, description and footer, the labels
+ * and colors of its series, legend and tooltip, and for bar charts the
+ * layout of the bars and the formatting of the axes.
+ * Validation runs through zod via react-hook-form.
+ */
+
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Switch } from "../ui/switch";
+import {
+  VALUE_FORMATS,
+  chartSettingsFormSchema,
+  type ChartSettingsForm,
+  type ChartWidgetConfig,
+  type ValueFormat,
+} from "@/lib/chart-settings";
+
+export type ChartSettingsKind = "bar" | "pie";
+
+const toFormValues = (config: ChartWidgetConfig): ChartSettingsForm => ({
+  settings: config.settings,
+  series: config.mapping.series,
+});
+
+type SwitchName =
+  | "settings.showLegend"
+  | "settings.showTooltip"
+  | "settings.axis.showGrid"
+  | "settings.axis.showValueAxis";
+
+// Presses inside the portalled dialog still bubble to the grid item; see ChartDataDialog
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+type ChartSettingsFieldsProps = {
+  config: ChartWidgetConfig;
+  chart: ChartSettingsKind;
+  onClose: () => void;
+  onSave: (config: ChartWidgetConfig) => void;
+};
+
+/**
+ * Form of the dialog. It unmounts with the closed dialog, so every opening
+ * starts from the saved settings.
+ */
+function ChartSettingsFields({ config, chart, onClose, onSave }: ChartSettingsFieldsProps) {
+  const form = useForm<ChartSettingsForm>({
+    resolver: zodResolver(chartSettingsFormSchema),
+    defaultValues: toFormValues(config),
+  });
+  const { fields: seriesFields } = useFieldArray({ control: form.control, name: "series" });
+
+  const handleSubmit = ({ settings, series }: ChartSettingsForm) => {
+    onSave({ ...config, mapping: { ...config.mapping, series }, settings });
+    onClose();
+  };
+
+  const switchField = (name: SwitchName, label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-2 space-y-0">
+          <FormLabel className="font-normal">{label}</FormLabel>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4">
+        <FormField
+          control={form.control}
+          name="settings.title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="settings.description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="settings.footer"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Footer</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormDescription>A note under the chart, e.g. what the numbers cover.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex flex-col gap-2">
+          <Label>Series</Label>
+          {seriesFields.map((series, index) => (
+            <div key={series.id} className="flex items-start gap-2">
+              <span className="w-28 truncate pt-2 text-sm text-muted-foreground">{series.field}</span>
+              <FormField
+                control={form.control}
+                name={`series.${index}.label`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input aria-label={`Label of ${series.field}`} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`series.${index}.color`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        aria-label={`Color of ${series.field}`}
+                        type="color"
+                        className="w-12 p-1"
+                        {...field}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+          {switchField("settings.showLegend", "Legend")}
+          {switchField("settings.showTooltip", "Tooltip")}
+          {chart === "bar" && switchField("settings.axis.showGrid", "Grid lines")}
+          {chart === "bar" && switchField("settings.axis.showValueAxis", "Value axis")}
+        </div>
+
+        {chart === "bar" && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="settings.barLayout"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bars</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="grouped">Grouped</SelectItem>
+                      <SelectItem value="stacked">Stacked</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="settings.axis.valueFormat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Values</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(VALUE_FORMATS) as ValueFormat[]).map((format) => (
+                        <SelectItem key={format} value={format}>
+                          {VALUE_FORMATS[format].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="settings.axis.categoryLabelLength"
+              render={({ field }) => (
+                <FormItem className="col-span-2">
+                  <FormLabel>Longest x-axis label (characters)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Longer labels are cut short, e.g. 3 turns January into Jan. Use 0 for no limit.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit">Save</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+type ChartSettingsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: ChartWidgetConfig;
+  // Pies have no axes, and shade their slices from the color of their series
+  chart: ChartSettingsKind;
+  onSave: (config: ChartWidgetConfig) => void;
+};
+
+function ChartSettingsDialog({ open, onOpenChange, config, chart, onSave }: ChartSettingsDialogProps) {
+  return (
+    <div className="contents" onMouseDown={stopPropagation} onTouchStart={stopPropagation}>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Widget settings</DialogTitle>
+            <DialogDescription>Applies to this widget only. Empty texts are hidden.</DialogDescription>
+          </DialogHeader>
+
+          <ChartSettingsFields config={config} chart={chart} onClose={() => onOpenChange(false)} onSave={onSave} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default ChartSettingsDialog;
@@ -0,0 +1,95 @@
+/**
+ * CommandPalette
+ *
+ * Searchable list of every canvas action with its keyboard shortcut, opened
+ * with Ctrl+K (⌘K on macOS) or from its toolbar button.
+ */
+
+import { useEffect, useState } from "react";
+import { Command as CommandIcon, type LucideIcon } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "../ui/command";
+import { DialogDescription, DialogTitle } from "../ui/dialog";
+
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  // Heading the command is listed under; groups keep the order they first appear in
+  group: string;
+  icon?: LucideIcon;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+};
+
+type CommandPaletteProps = {
+  commands: PaletteCommand[];
+};
+
+function CommandPalette({ commands }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== "k" || !(event.ctrlKey || event.metaKey)) return;
+      event.preventDefault();
+      setOpen((prev) => !prev);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const groups = [...new Set(commands.map((command) => command.group))];
+
+  const runCommand = (command: PaletteCommand) => {
+    setOpen(false);
+    command.run();
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} title="Command palette (Ctrl+K)">
+        <CommandIcon className="mr-2 h-4 w-4" /> Commands
+      </Button>
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">Search for a canvas action to run.</DialogDescription>
+        <CommandInput placeholder="Type a command or search..." />
+        <CommandList>
+          <CommandEmpty>No matching commands.</CommandEmpty>
+          {groups.map((group) => (
+            <CommandGroup key={group} heading={group}>
+              {commands
+                .filter((command) => command.group === group)
+                .map((command) => {
+                  const Icon = command.icon;
+                  return (
+                    <CommandItem
+                      key={command.id}
+                      value={`${group} ${command.label}`}
+                      disabled={command.disabled}
+                      onSelect={() => runCommand(command)}
+                    >
+                      {Icon && <Icon className="mr-2 h-4 w-4" />}
+                      <span>{command.label}</span>
+                      {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+                    </CommandItem>
+                  );
+                })}
+            </CommandGroup>
+          ))}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
+
+export default CommandPalette;
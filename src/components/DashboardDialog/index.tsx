@@ -0,0 +1,144 @@
+/**
+ * DashboardDialog
+ *
+ * Names a new dashboard, a renamed one, or a copy of one used as a template.
+ * Validation runs through zod via react-hook-form.
+ */
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../ui/form";
+import { Input } from "../ui/input";
+import { dashboardInputSchema, type Dashboard, type DashboardInput } from "@/lib/dashboards";
+
+export type DashboardDialogMode = "create" | "rename" | "duplicate";
+
+const COPY: Record<DashboardDialogMode, { title: string; description: string; submit: string }> = {
+  create: {
+    title: "New dashboard",
+    description: "Starts out empty; add widgets from the sidebar.",
+    submit: "Create",
+  },
+  rename: {
+    title: "Rename dashboard",
+    description: "The widgets and layout stay as they are.",
+    submit: "Save",
+  },
+  duplicate: {
+    title: "Duplicate as template",
+    description: "Starts out with a copy of this dashboard's widgets and layout.",
+    submit: "Duplicate",
+  },
+};
+
+const toFormValues = (
+  mode: DashboardDialogMode,
+  dashboard: Dashboard | null,
+  index: number
+): DashboardInput => {
+  if (mode === "create" || !dashboard) return { name: `Dashboard ${index}` };
+  return { name: mode === "rename" ? dashboard.name : `${dashboard.name.slice(0, 59)} copy` };
+};
+
+type DashboardFormProps = {
+  mode: DashboardDialogMode;
+  dashboard: Dashboard | null;
+  dashboardCount: number;
+  onCancel: () => void;
+  onSave: (input: DashboardInput) => Promise<void>;
+};
+
+/**
+ * Name field of the dialog. The dialog content unmounts when closed and this
+ * is keyed by mode and dashboard, so it starts from the right name every
+ * time the dialog opens.
+ */
+function DashboardForm({ mode, dashboard, dashboardCount, onCancel, onSave }: DashboardFormProps) {
+  const form = useForm<DashboardInput>({
+    resolver: zodResolver(dashboardInputSchema),
+    defaultValues: toFormValues(mode, dashboard, dashboardCount + 1),
+  });
+
+  const handleSubmit = async (values: DashboardInput) => {
+    await onSave(values);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {COPY[mode].submit}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+type DashboardDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: DashboardDialogMode;
+  // The dashboard being renamed or duplicated; null when creating one
+  dashboard: Dashboard | null;
+  dashboardCount: number;
+  onSave: (input: DashboardInput) => Promise<void>;
+};
+
+function DashboardDialog({
+  open,
+  onOpenChange,
+  mode,
+  dashboard,
+  dashboardCount,
+  onSave,
+}: DashboardDialogProps) {
+  const copy = COPY[mode];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+        <DashboardForm
+          key={`${mode}-${dashboard?.id}`}
+          mode={mode}
+          dashboard={dashboard}
+          dashboardCount={dashboardCount}
+          onCancel={() => onOpenChange(false)}
+          onSave={onSave}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default DashboardDialog;
@@ -2,36 +2,21 @@ import "react-grid-layout/css/styles.css";
 import "react-resizable/css/styles.css";
 
 import GridLayout from "react-grid-layout";
-import { BarChartComponent } from "../BarChart";
-import { PieChartComponent } from "../PieChart";
-import { useContext, useEffect,  useState } from "react";
+import { useContext, useEffect } from "react";
+import { FALLBACK_WIDGET_SIZE, getWidget, readWidgetConfig } from "../widgets";
 import { ComponentContext } from "@/store/handle-component-context";
-
-type LayoutItem = {
-    i: string, // A unique ID for the item
-    x: number, // The x-position on the grid
-    y: number, // The y-position on the grid
-    w: number, // The width of the item
-    h: number, // The height of the item
-    isDraggable?: boolean,
-    isResizable?: boolean,
-    static?: boolean,
-    minW?: number,
-    maxW?: number,
-    minH?: number,
-    maxH?: number,
-};
+import type { LayoutItem } from "@/lib/dashboards";
 
 export default function GridStack() {
     
-    const {componentList} = useContext(ComponentContext);
-    const [layoutValue, setLayoutValue] = useState<LayoutItem[]>([]);
+    // The layout lives in the context, which saves it together with the widgets
+    const {componentList, layout: layoutValue, isLoaded, updateLayout} = useContext(ComponentContext);
 
 
     useEffect(() => {
         console.log("List hit");
 
-        setLayoutValue(currentLayout => {
+        updateLayout(currentLayout => {
             // Filter out any layout items that no longer exist in componentList
             const filteredLayout = currentLayout.filter(layoutItem =>
                 componentList.some(comp => comp._id === layoutItem.i)
@@ -42,16 +27,15 @@ export default function GridStack() {
             componentList.forEach(comp => {
                 const isComponentInLayout = filteredLayout.some(layoutItem => layoutItem.i === comp._id);
                 if (!isComponentInLayout) {
-                    let itemConfig: Omit<LayoutItem, 'i'> = { x: 0, y: Infinity, w: 4, h: 2, minW: 2, minH: 1 };
-                    if (comp.componentName === "PieChartComponent") {
-                        itemConfig = { ...itemConfig, h: 2, minW: 4, minH: 2 };
-                    }
-                    if (comp.componentName === "BarChartComponent") {
-                        itemConfig = { ...itemConfig, h: 2, minW: 2, minH: 1 };
-                    }
+                    // New widgets start at the bottom, sized as their type asks
+                    const { defaultSize, minSize } = getWidget(comp.componentName) ?? FALLBACK_WIDGET_SIZE;
                     newLayoutItems.push({
                         i: comp._id,
-                        ...itemConfig,
+                        x: 0,
+                        y: Infinity,
+                        ...defaultSize,
+                        minW: minSize.w,
+                        minH: minSize.h,
                     });
                 }
             });
@@ -59,12 +43,16 @@ export default function GridStack() {
             return [...filteredLayout, ...newLayoutItems];
         });
 
-    }, [componentList]);
+    }, [componentList, updateLayout]);
 
+    // Every drag and resize ends up here, and the context autosaves it
     const onLayoutChange = (newLayout: LayoutItem[]) => {
-        setLayoutValue(newLayout);
+        updateLayout(newLayout);
     };
 
+    if (!isLoaded) {
+        return <p className="grow text-muted-foreground">Loading dashboard...</p>;
+    }
     
     return (
         <GridLayout
@@ -81,22 +69,20 @@ export default function GridStack() {
 
             if (!componentItem) return null;
 
-            switch (componentItem.componentName) {
-              case "BarChartComponent": {
-                return (
-                  <div className="border" key={item.i}>
-                    <BarChartComponent id={componentItem._id} />
-                  </div>
-                );
-              }
-              case "PieChartComponent": {
-                return (
-                  <div className="border" key={item.i}>
-                    <PieChartComponent id={componentItem._id} />
-                  </div>
-                );
-              }
+            const widget = getWidget(componentItem.componentName);
+            if (!widget) {
+              return (
+                <div className="border p-2 text-sm text-muted-foreground" key={item.i}>
+                  Unknown widget &quot;{componentItem.componentName}&quot;
+                </div>
+              );
             }
+            const Widget = widget.component;
+            return (
+              <div className="border" key={item.i}>
+                <Widget id={componentItem._id} config={readWidgetConfig(widget, componentItem.config)} />
+              </div>
+            );
           })
         ) : (
           <p>No Data</p>
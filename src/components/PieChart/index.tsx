@@ -1,4 +1,4 @@
-import { TrendingUp } from "lucide-react"
+import { Database, Settings } from "lucide-react"
 import { Pie, PieChart } from "recharts"
 
 import {
@@ -12,52 +12,50 @@ import {
 import {
   ChartConfig,
   ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart"
-import React, { useContext } from "react"
+import React, { useContext, useState } from "react"
 import { ComponentContext } from "@/store/handle-component-context"
+import ChartDataDialog from "../ChartDataDialog"
+import ChartSettingsDialog from "../ChartSettingsDialog"
+import { useChartData } from "@/hooks/use-chart-data"
+import { toChartData } from "@/lib/chart-data"
+import type { ChartWidgetConfig } from "@/lib/chart-settings"
+import type { WidgetProps } from "@/lib/widget-registry"
 
 export const description = "A simple pie chart"
 
-const chartData = [
-  { browser: "chrome", visitors: 275, fill: "var(--color-chrome)" },
-  { browser: "safari", visitors: 200, fill: "var(--color-safari)" },
-  { browser: "firefox", visitors: 187, fill: "var(--color-firefox)" },
-  { browser: "edge", visitors: 173, fill: "var(--color-edge)" },
-  { browser: "other", visitors: 90, fill: "var(--color-other)" },
-]
+// Slices are shades of the series color, from the full color down to 40% of it mixed with white
+const sliceColor = (color: string, index: number, count: number) =>
+  `color-mix(in srgb, ${color} ${Math.round(100 - (60 * index) / Math.max(count - 1, 1))}%, white)`
 
-const chartConfig = {
-  visitors: {
-    label: "Visitors",
-  },
-  chrome: {
-    label: "Chrome",
-    color: "var(--chart-1)",
-  },
-  safari: {
-    label: "Safari",
-    color: "var(--chart-2)",
-  },
-  firefox: {
-    label: "Firefox",
-    color: "var(--chart-3)",
-  },
-  edge: {
-    label: "Edge",
-    color: "var(--chart-4)",
-  },
-  other: {
-    label: "Other",
-    color: "var(--chart-5)",
-  },
-} satisfies ChartConfig
-
-export function PieChartComponent({id}:{id: string}) {
+export function PieChartComponent({id, config}: WidgetProps<ChartWidgetConfig>) {
   
 
-  const {deleteComponent} = useContext(ComponentContext);
+  const {deleteComponent, updateComponentConfig} = useContext(ComponentContext);
+  const [isDataDialogOpen, setIsDataDialogOpen] = useState(false)
+  const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false)
+  const {rows, error, isLoading} = useChartData(config.dataSource)
+  const {settings} = config
+  // A pie plots a single value field
+  const {categoryField, series: [value]} = config.mapping
+  const points = toChartData(rows, {categoryField, series: [value]})
+  const chartData = points.map((point, index): Record<string, string | number> => ({
+    ...point,
+    fill: sliceColor(value.color, index, points.length),
+  }))
+  const chartConfig: ChartConfig = {
+    [value.field]: {label: value.label},
+    ...Object.fromEntries(
+      chartData.map((point, index) => [
+        point[categoryField],
+        {label: point[categoryField], color: sliceColor(value.color, index, points.length)},
+      ])
+    ),
+  }
   const handleDeleteComponent = (e: React.MouseEvent) => {
     e.stopPropagation();
     console.log("Delete event hit")
@@ -96,32 +94,79 @@ export function PieChartComponent({id}:{id: string}) {
           </g>
         </g>
       </svg>
-      <CardHeader className="items-center pb-0">
-        <CardTitle>Pie Chart</CardTitle>
-        <CardDescription>January - June 2024</CardDescription>
-      </CardHeader>
+      <button
+        type="button"
+        title="Settings"
+        className="absolute top-1 right-6 z-10 no-drag text-[#242420] hover:cursor-pointer"
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsSettingsDialogOpen(true)
+        }}
+      >
+        <Settings className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        title="Data source"
+        className="absolute top-1 right-11 z-10 no-drag text-[#242420] hover:cursor-pointer"
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsDataDialogOpen(true)
+        }}
+      >
+        <Database className="w-4 h-4" />
+      </button>
+      {(settings.title || settings.description) && (
+        <CardHeader className="items-center pb-0">
+          {settings.title && <CardTitle>{settings.title}</CardTitle>}
+          {settings.description && <CardDescription>{settings.description}</CardDescription>}
+        </CardHeader>
+      )}
       <CardContent className="p-0">
         <ChartContainer
           config={chartConfig}
           className="mx-auto aspect-square max-h-[150px]"
         >
           <PieChart className="h-full">
-            <ChartTooltip
-              cursor={false}
-              content={<ChartTooltipContent hideLabel />}
-            />
-            <Pie data={chartData} dataKey="visitors" nameKey="browser" />
+            {settings.showTooltip && (
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent hideLabel />}
+              />
+            )}
+            <Pie data={chartData} dataKey={value.field} nameKey={categoryField} />
+            {settings.showLegend && (
+              <ChartLegend content={<ChartLegendContent nameKey={categoryField} />} />
+            )}
           </PieChart>
         </ChartContainer>
+        {chartData.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground">
+            {isLoading ? "Loading data..." : error ?? "No data"}
+          </p>
+        )}
       </CardContent>
-      <CardFooter className="flex-col gap-2 text-sm">
-        <div className="flex items-center gap-2 leading-none font-medium">
-          Trending up by 5.2% this month <TrendingUp className="h-4 w-4" />
-        </div>
-        <div className="text-muted-foreground leading-none">
-          Showing total visitors for the last 6 months
-        </div>
-      </CardFooter>
+      {settings.footer && (
+        <CardFooter className="flex-col gap-2 text-sm">
+          <div className="text-muted-foreground leading-none">
+            {settings.footer}
+          </div>
+        </CardFooter>
+      )}
+      <ChartDataDialog
+        open={isDataDialogOpen}
+        onOpenChange={setIsDataDialogOpen}
+        config={config}
+        singleSeries
+        onSave={(next) => updateComponentConfig(id, next)}
+      />
+      <ChartSettingsDialog
+        open={isSettingsDialogOpen}
+        onOpenChange={setIsSettingsDialogOpen}
+        config={config}
+        chart="pie"
+        onSave={(next) => updateComponentConfig(id, next)}
+      />
     </Card>
   );
 }
@@ -0,0 +1,39 @@
+import { ChartPie } from "lucide-react"
+import { DEFAULT_CHART_SETTINGS, chartWidgetConfigSchema } from "@/lib/chart-settings"
+import { defineWidget } from "@/lib/widget-registry"
+import { PieChartComponent } from "."
+
+// Shown until the widget is given a data source
+const sampleRows = [
+  { browser: "Chrome", visitors: 275 },
+  { browser: "Safari", visitors: 200 },
+  { browser: "Firefox", visitors: 187 },
+  { browser: "Edge", visitors: 173 },
+  { browser: "Other", visitors: 90 },
+]
+
+export const pieChartWidget = defineWidget({
+  id: "PieChartComponent",
+  name: "Pie Chart",
+  icon: ChartPie,
+  // The pie needs the room for its legend and footer
+  defaultSize: { w: 4, h: 2 },
+  minSize: { w: 4, h: 2 },
+  configSchema: chartWidgetConfigSchema,
+  defaultConfig: {
+    dataSource: { kind: "static", json: JSON.stringify(sampleRows, null, 2) },
+    // The pie plots only the first series, and shades its slices from the color of that series
+    mapping: {
+      categoryField: "browser",
+      series: [{ field: "visitors", label: "Visitors", color: "#2563eb" }],
+    },
+    settings: {
+      ...DEFAULT_CHART_SETTINGS,
+      title: "Pie Chart",
+      description: "January - June 2024",
+      footer: "Showing total visitors for the last 6 months",
+      showLegend: false,
+    },
+  },
+  component: PieChartComponent,
+})
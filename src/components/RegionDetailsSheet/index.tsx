@@ -0,0 +1,241 @@
+/**
+ * RegionDetailsSheet
+ *
+ * Side panel listing every drawn region and editing the metadata of the
+ * selected one: name, category, color and free-form tags.
+ * Validation runs through zod via react-hook-form.
+ */
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form";
+import { Input } from "../ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { cn } from "@/lib/utils";
+import {
+  REGION_CATEGORIES,
+  regionMetadataSchema,
+  type RegionCategory,
+  type RegionMetadata,
+  type Shape,
+} from "@/lib/regions";
+
+// Tags are typed as a comma separated string and split on save
+const formSchema = regionMetadataSchema.extend({
+  tags: z.string().max(400),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const toFormValues = ({ name, category, color, tags }: RegionMetadata): FormValues => ({
+  name,
+  category,
+  color,
+  tags: tags.join(", "),
+});
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(",").map((tag) => tag.trim()).filter(Boolean)));
+
+type RegionMetadataFormProps = {
+  shape: Shape;
+  onSave: (id: string, metadata: RegionMetadata) => void;
+};
+
+/** Metadata form of one region; keyed by the region, so it starts from its values each time */
+function RegionMetadataForm({ shape, onSave }: RegionMetadataFormProps) {
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(shape),
+  });
+
+  const handleSubmit = (values: FormValues) => {
+    const tags = parseTags(values.tags);
+    const parsed = regionMetadataSchema.safeParse({ ...values, tags });
+    if (!parsed.success) {
+      form.setError("tags", { message: "Tags must be 1-32 characters, at most 20" });
+      return;
+    }
+    onSave(shape.id, parsed.data);
+  };
+
+  const handleCategoryChange = (category: RegionCategory) => {
+    form.setValue("category", category);
+    // Follow the category color unless the user picked a custom one
+    const previous = REGION_CATEGORIES[shape.category].color;
+    if (form.getValues("color").toLowerCase() === previous.toLowerCase()) {
+      form.setValue("color", REGION_CATEGORIES[category].color);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4 border-t pt-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Front door" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select value={field.value} onValueChange={handleCategoryChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(REGION_CATEGORIES).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="color"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Color</FormLabel>
+              <div className="flex gap-2">
+                <Input
+                  type="color"
+                  className="w-12 shrink-0 p-1"
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <Input placeholder="lobby, night-shift" {...field} />
+              </FormControl>
+              <FormDescription>Separate tags with commas.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit">Save region</Button>
+      </form>
+    </Form>
+  );
+}
+
+type RegionDetailsSheetProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shapes: Shape[];
+  editingId: string | null;
+  onEditingIdChange: (id: string) => void;
+  onSave: (id: string, metadata: RegionMetadata) => void;
+};
+
+function RegionDetailsSheet({
+  open,
+  onOpenChange,
+  shapes,
+  editingId,
+  onEditingIdChange,
+  onSave,
+}: RegionDetailsSheetProps) {
+  const editingShape = shapes.find((shape) => shape.id === editingId) ?? null;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-4 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Regions</SheetTitle>
+          <SheetDescription>
+            Name and categorize the regions drawn on the canvas.
+          </SheetDescription>
+        </SheetHeader>
+
+        {shapes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No regions drawn yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {shapes.map((shape) => (
+              <li key={shape.id}>
+                <button
+                  type="button"
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-accent",
+                    shape.id === editingId && "bg-accent"
+                  )}
+                  onClick={() => onEditingIdChange(shape.id)}
+                >
+                  <span
+                    className="h-3 w-3 shrink-0 rounded-sm border"
+                    style={{ backgroundColor: shape.color }}
+                  />
+                  <span className="truncate">{shape.name}</span>
+                  <Badge variant="outline" className="ml-auto shrink-0">
+                    {REGION_CATEGORIES[shape.category].label}
+                  </Badge>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editingShape && (
+          <RegionMetadataForm key={editingShape.id} shape={editingShape} onSave={onSave} />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export default RegionDetailsSheet;
@@ -0,0 +1,143 @@
+/**
+ * ValidationPanel
+ *
+ * Shapes that break the region validation rules, each with its reasons, and
+ * a popover to configure the rules. Clicking a shape selects it on the canvas.
+ */
+
+import { CircleCheck, SlidersHorizontal, TriangleAlert } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
+import { Switch } from "../ui/switch";
+import { cn } from "@/lib/utils";
+import type { Shape } from "@/lib/regions";
+import {
+  validationRulesSchema,
+  type ValidationIssue,
+  type ValidationRules,
+} from "@/lib/region-validation";
+
+type ValidationPanelProps = {
+  shapes: Shape[];
+  issues: ValidationIssue[];
+  rules: ValidationRules;
+  onRulesChange: (rules: ValidationRules) => void;
+  onSelectShape: (id: string) => void;
+};
+
+type NumericRule = "minArea" | "maxOverlapPercent" | "maxVertices";
+
+const NUMERIC_RULES: { key: NumericRule; label: string; hint: string; max?: number }[] = [
+  { key: "minArea", label: "Minimum area (px²)", hint: "0 allows any size" },
+  {
+    key: "maxOverlapPercent",
+    label: "Maximum overlap (%)",
+    hint: "Intersection over union; 100 allows duplicates",
+    max: 100,
+  },
+  { key: "maxVertices", label: "Maximum vertices", hint: "Polygons and tripwires; 0 for no limit" },
+];
+
+function ValidationPanel({ shapes, issues, rules, onRulesChange, onSelectShape }: ValidationPanelProps) {
+  const offending = shapes
+    .map((shape) => ({ shape, reasons: issues.filter((issue) => issue.shapeId === shape.id) }))
+    .filter(({ reasons }) => reasons.length > 0);
+
+  // Only apply values the schema accepts, so a half-typed number never sticks
+  const changeRule = (patch: Partial<ValidationRules>) => {
+    const parsed = validationRulesSchema.safeParse({ ...rules, ...patch });
+    if (parsed.success) onRulesChange(parsed.data);
+  };
+
+  return (
+    <div
+      className={cn(
+        "w-full max-w-[1065px] rounded-md border p-2 text-sm",
+        offending.length > 0 && "border-destructive/50"
+      )}
+    >
+      <div className="flex items-center gap-2">
+        {offending.length > 0 ? (
+          <>
+            <TriangleAlert className="h-4 w-4 text-destructive" />
+            <span className="font-medium">
+              {offending.length} region(s) must be fixed before submitting
+            </span>
+          </>
+        ) : (
+          <>
+            <CircleCheck className="h-4 w-4 text-green-600" />
+            <span className="text-muted-foreground">All regions pass validation</span>
+          </>
+        )}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="ml-auto">
+              <SlidersHorizontal className="mr-2 h-4 w-4" /> Rules
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="flex w-80 flex-col gap-3">
+            {NUMERIC_RULES.map(({ key, label, hint, max }) => (
+              <div key={key} className="flex flex-col gap-1.5">
+                <Label htmlFor={`rule-${key}`}>{label}</Label>
+                <Input
+                  id={`rule-${key}`}
+                  type="number"
+                  min={0}
+                  max={max}
+                  step={1}
+                  defaultValue={rules[key]}
+                  onChange={(e) => changeRule({ [key]: e.target.valueAsNumber })}
+                />
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-self-intersection">No self-intersection</Label>
+              <Switch
+                id="rule-self-intersection"
+                checked={rules.noSelfIntersection}
+                onCheckedChange={(checked) => changeRule({ noSelfIntersection: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-within-bounds">Within the video frame</Label>
+              <Switch
+                id="rule-within-bounds"
+                checked={rules.withinBounds}
+                onCheckedChange={(checked) => changeRule({ withinBounds: checked })}
+              />
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {offending.length > 0 && (
+        <ul className="mt-1 flex flex-col">
+          {offending.map(({ shape, reasons }) => (
+            <li key={shape.id}>
+              <button
+                type="button"
+                className="flex w-full items-start gap-2 rounded-sm px-2 py-1 text-left hover:bg-muted"
+                onClick={() => onSelectShape(shape.id)}
+              >
+                <span
+                  className="mt-1 h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: shape.color }}
+                />
+                <span className="font-medium">{shape.name}</span>
+                <span className="text-muted-foreground">
+                  {reasons.map((reason) => reason.message).join(" ")}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ValidationPanel;
@@ -0,0 +1,168 @@
+/**
+ * VideoSourcePicker
+ *
+ * Dialog for choosing what the drawing canvas shows: a camera from
+ * `navigator.mediaDevices.enumerateDevices()`, an HLS/MP4 stream URL,
+ * or a local video or image file.
+ */
+
+import { useEffect, useState } from "react";
+import { Video } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+import { describeVideoSource, type VideoSource } from "@/lib/video-source";
+
+type VideoSourcePickerProps = {
+  value: VideoSource;
+  onChange: (source: VideoSource) => void;
+};
+
+function VideoSourcePicker({ value, onChange }: VideoSourcePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState(value.kind === "camera" ? value.deviceId : "");
+  const [url, setUrl] = useState(value.kind === "url" ? value.url : "");
+  const [urlError, setUrlError] = useState<string | null>(null);
+
+  // List video inputs each time the dialog opens; devices come and go
+  useEffect(() => {
+    if (!open || !navigator.mediaDevices?.enumerateDevices) return;
+    navigator.mediaDevices
+      .enumerateDevices()
+      // Without camera permission the ids are blank and can't be opened
+      .then((all) => setDevices(all.filter((device) => device.kind === "videoinput" && device.deviceId)))
+      .catch((err) => console.error("Failed to list cameras:", err));
+  }, [open]);
+
+  const choose = (source: VideoSource) => {
+    onChange(source);
+    setOpen(false);
+  };
+
+  // Labels stay empty until the user has granted camera access once
+  const deviceLabel = (device: MediaDeviceInfo, index: number) => device.label || `Camera ${index + 1}`;
+
+  const handleUseCamera = () => {
+    const index = devices.findIndex((device) => device.deviceId === deviceId);
+    if (index === -1) return;
+    choose({ kind: "camera", deviceId, label: deviceLabel(devices[index], index) });
+  };
+
+  const handleUseUrl = () => {
+    try {
+      const parsed = new URL(url.trim());
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error();
+      setUrlError(null);
+      choose({ kind: "url", url: parsed.toString() });
+    } catch {
+      setUrlError("Enter a full http(s) URL.");
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const mediaType = file.type.startsWith("image/") ? "image" : "video";
+    choose({ kind: "file", name: file.name, mediaType, file });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="max-w-64" title={describeVideoSource(value)}>
+          <Video className="mr-2 h-4 w-4 shrink-0" />
+          <span className="truncate">{describeVideoSource(value)}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Video source</DialogTitle>
+          <DialogDescription>Choose the picture to draw regions on.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue={value.kind === "auto" ? "camera" : value.kind}>
+          <TabsList className="w-full">
+            <TabsTrigger value="camera" className="flex-1">Camera</TabsTrigger>
+            <TabsTrigger value="url" className="flex-1">Stream URL</TabsTrigger>
+            <TabsTrigger value="file" className="flex-1">Local file</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="camera" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="video-source-device">Camera</Label>
+            <Select value={deviceId} onValueChange={setDeviceId}>
+              <SelectTrigger id="video-source-device">
+                <SelectValue
+                  placeholder={devices.length ? "Select a camera" : "No cameras available yet"}
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {devices.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {deviceLabel(device, index)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {devices.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Allow camera access (e.g. via the default camera) to list every camera by name.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => choose({ kind: "auto" })}>
+                Use default
+              </Button>
+              <Button onClick={handleUseCamera} disabled={!deviceId}>
+                Use camera
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="url" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="video-source-url">HLS (.m3u8) or MP4 URL</Label>
+            <Input
+              id="video-source-url"
+              placeholder="https://example.com/live/stream.m3u8"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleUseUrl()}
+            />
+            {urlError && <p className="text-sm text-destructive">{urlError}</p>}
+            <div className="flex justify-end">
+              <Button onClick={handleUseUrl} disabled={!url.trim()}>
+                Use stream
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="file" className="flex flex-col gap-3 pt-2">
+            <Label htmlFor="video-source-file">Video or image file</Label>
+            <Input id="video-source-file" type="file" accept="video/*,image/*" onChange={handleFile} />
+            <p className="text-sm text-muted-foreground">
+              Files stay on this device. After a reload you will be asked to pick the file again.
+            </p>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default VideoSourcePicker;
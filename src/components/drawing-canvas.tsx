@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import {
   RectangleHorizontal,
@@ -10,380 +11,1629 @@ import {
   Send,
   Triangle,
   Sparkles,
+  Tags,
+  Undo2,
+  Redo2,
+  MousePointer2,
+  X,
+  Download,
+  Upload,
+  Camera,
+  Spline,
+  ArrowLeftRight,
+  Circle,
+  Egg,
+  Grid3x3,
+  Magnet,
+  Ruler,
+  SquareDashed,
+  ZoomIn,
+  ZoomOut,
+  Scan,
+  CornerDownLeft,
+  Delete,
+  Ban,
+  Combine,
+  SquaresUnite,
+  SquaresSubtract,
+  SquaresIntersect,
+  SquaresExclude,
+  type LucideIcon,
 } from "lucide-react";
 import { toast } from "sonner";
-import Hls from "hls.js";
+import { v4 as uuidv4 } from "uuid";
 
 
 import { useNextStep } from 'nextstepjs';
 import { useRouter } from "next/navigation";
 
-// Types for drawing
-type DrawingMode = "rectangle" | "square" | "polygon" | "none";
-type Point = { x: number; y: number };
-type Shape = { type: "rectangle" | "square" | "polygon" | "none"; points: Point[] };
-
-type DragInfo = { shapeIndex: number; offsetX: number; offsetY: number } | null;
-type ResizeInfo = { shapeIndex: number; corner: "tl" | "tr" | "bl" | "br" } | null;
+import {
+  REGION_CATEGORIES,
+  ellipseToPoints,
+  getDefaultMetadata,
+  toNormalizedPoint,
+  toPixelEllipse,
+  toPixelPoint,
+  toRegionPayload,
+  translateShape,
+  type DrawingMode,
+  type EllipseParams,
+  type FrameSize,
+  type FrameSnapshot,
+  type Point,
+  type Region,
+  type RegionMetadata,
+  type Shape,
+} from "@/lib/regions";
+import { cn, downloadFile, withAlpha } from "@/lib/utils";
+import {
+  REGION_FORMATS,
+  exportRegions,
+  importRegions,
+  type RegionFormat,
+} from "@/lib/region-formats";
+import { canvasToBlob, captureVideoFrame, type ImageFormat } from "@/lib/frame-capture";
+import {
+  DEFAULT_VIDEO_SOURCE,
+  loadVideoSource,
+  saveVideoSource,
+  videoSourceFromUrl,
+  type VideoSource,
+} from "@/lib/video-source";
+import { createDefaultCamera, type Camera as CameraSettings } from "@/lib/cameras";
+import { useMediaSource } from "@/hooks/use-media-source";
+import VideoSourcePicker from "@/components/VideoSourcePicker";
+import CommandPalette, { type PaletteCommand } from "@/components/CommandPalette";
+import ValidationPanel from "@/components/ValidationPanel";
+import {
+  BOOLEAN_OPERATIONS,
+  combineShapes,
+  isCombinable,
+  type BooleanOperation,
+} from "@/lib/region-boolean";
+import {
+  DEFAULT_VALIDATION_RULES,
+  loadValidationRules,
+  saveValidationRules,
+  validateShapes,
+  type ValidationRules,
+} from "@/lib/region-validation";
+import {
+  distance,
+  findSegmentNear,
+  findVertexNear,
+  getBounds,
+  getShapeAtPoint,
+  insertRingVertex,
+  lerp,
+  midpoint,
+  removePathVertex,
+  removeRingVertex,
+  normalizeAngle,
+  rotateAround,
+  rotateVector,
+  segmentNormal,
+  type Bounds,
+  type HitTarget,
+} from "@/lib/geometry";
+import {
+  DEFAULT_SNAP_SETTINGS,
+  NO_GUIDES,
+  alignBounds,
+  alignPoint,
+  constrainAngle,
+  getAlignmentLines,
+  loadSnapSettings,
+  pickGridSize,
+  saveSnapSettings,
+  snapPointsToShapes,
+  snapToGrid,
+  snapToShapes,
+  type Guides,
+  type SnapSettings,
+  type SnapTarget,
+} from "@/lib/snapping";
+import { useHistory } from "@/hooks/use-history";
+import { MAX_ZOOM, MIN_ZOOM, useViewport, type Pinch } from "@/hooks/use-viewport";
+import RegionDetailsSheet from "@/components/RegionDetailsSheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+type Corner = "tl" | "tr" | "bl" | "br";
+// Order of the corners in a rectangle's points
+const CORNER_ORDER: Corner[] = ["tl", "tr", "br", "bl"];
+const OPPOSITE_CORNER: Record<Corner, Corner> = { tl: "br", tr: "bl", br: "tl", bl: "tr" };
+// A group move: where the drag started and the selected shapes as they were then
+type DragInfo = { origin: Point; originals: Shape[] } | null;
+type Marquee = { start: Point; end: Point; additive: boolean } | null;
+type ResizeInfo = { shapeIndex: number; corner: Corner } | null;
 type DraggingPoint = { shapeIndex: number; pointIndex: number } | null;
+// A pressed midpoint handle, inserted as a vertex once the pointer starts dragging
+type PendingVertex = { shapeIndex: number; segmentIndex: number; origin: Point } | null;
+type Axis = "x" | "y";
+type RadiusDrag = { shapeIndex: number; axis: Axis } | null;
+type RotateInfo = { shapeIndex: number; original: Shape; startAngle: number } | null;
+type Hit =
+  | { kind: "vertex"; shapeIndex: number; pointIndex: number }
+  | { kind: "midpoint"; shapeIndex: number; segmentIndex: number }
+  | { kind: "corner"; shapeIndex: number; corner: Corner }
+  | { kind: "radius"; shapeIndex: number; axis: Axis }
+  | { kind: "rotate"; shapeIndex: number }
+  | { kind: "body"; shapeIndex: number };
+
+type HitTolerances = { vertex: number; corner: number; edge: number };
+
+// Hit-test tolerances, in screen pixels; fingers get bigger targets than a mouse or pen
+const HIT_TOLERANCES: HitTolerances = { vertex: 8, corner: 10, edge: 6 };
+const TOUCH_HIT_TOLERANCES: HitTolerances = { vertex: 20, corner: 22, edge: 14 };
+// How close the cursor must come to a grid line, shape or guide to snap to it, in screen pixels
+const SNAP_DISTANCE = 8;
+
+// Arrow-key nudge distances, in source (video) pixels
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+// Length of the crossing-direction arrows drawn on tripwires, in screen pixels
+const DIRECTION_ARROW_LENGTH = 18;
+
+// How far the rotation handle sits beyond a shape's top edge, in screen pixels
+const ROTATION_HANDLE_OFFSET = 24;
+// Shift-rotating snaps to multiples of this angle
+const ROTATION_SNAP = Math.PI / 12;
+
+// Drawing tools, in toolbar order, with their single-key shortcuts
+const TOOLS: { mode: DrawingMode; label: string; icon: LucideIcon; shortcut: string }[] = [
+  { mode: "none", label: "Select", icon: MousePointer2, shortcut: "V" },
+  { mode: "rectangle", label: "Rectangle", icon: RectangleHorizontal, shortcut: "R" },
+  { mode: "polygon", label: "Polygon", icon: Triangle, shortcut: "P" },
+  { mode: "circle", label: "Circle", icon: Circle, shortcut: "C" },
+  { mode: "ellipse", label: "Ellipse", icon: Egg, shortcut: "E" },
+  { mode: "line", label: "Line", icon: Spline, shortcut: "L" },
+];
+
+// Icons of the boolean operations, in menu order
+const BOOLEAN_OPERATION_ICONS: Record<BooleanOperation, LucideIcon> = {
+  union: SquaresUnite,
+  difference: SquaresSubtract,
+  intersection: SquaresIntersect,
+  xor: SquaresExclude,
+};
 
-const DrawingCanvas = () => {
+/** Whether a shape can be turned with the rotation handle */
+const isRotatable = (shape: Shape) =>
+  shape.type === "rectangle" || shape.type === "square" || shape.type === "ellipse";
+
+/** Whether a shape's vertices can be edited one by one (polygons and tripwires) */
+const hasEditableVertices = (shape: Shape) => shape.type === "polygon" || shape.type === "line";
+
+/** Normalized positions of the four radius handles of a circle or ellipse */
+const getRadiusHandles = (
+  ellipse: EllipseParams,
+  frame: FrameSize
+): { point: Point; axis: Axis }[] => {
+  const { center, rx, ry, rotation } = toPixelEllipse(ellipse, frame);
+  const offsets: [Point, Axis][] = [
+    [{ x: rx, y: 0 }, "x"],
+    [{ x: -rx, y: 0 }, "x"],
+    [{ x: 0, y: ry }, "y"],
+    [{ x: 0, y: -ry }, "y"],
+  ];
+  return offsets.map(([offset, axis]) => {
+    const v = rotateVector(offset, rotation);
+    return { point: toNormalizedPoint({ x: center.x + v.x, y: center.y + v.y }, frame), axis };
+  });
+};
+
+/** Whether two bounding boxes overlap */
+const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+// Width of the camera thumbnails, and how often a playing video refreshes its own
+const THUMBNAIL_WIDTH = 192;
+const THUMBNAIL_INTERVAL_MS = 10_000;
+
+type DrawingCanvasProps = {
+  // The camera whose regions are edited; defaults to the default camera
+  camera?: CameraSettings;
+  // Unsaved shapes to restore instead of the saved regions
+  draft?: Shape[];
+  // Reports every change, and whether the shapes differ from the saved ones
+  onShapesChange?: (shapes: Shape[], isDirty: boolean) => void;
+  onThumbnail?: (dataUrl: string) => void;
+};
+
+const defaultCamera = createDefaultCamera();
+
+const DrawingCanvas = ({
+  camera = defaultCamera,
+  draft,
+  onShapesChange,
+  onThumbnail,
+}: DrawingCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Clips the zoomed video and canvas, which are transformed together
+  const viewportRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Raw video frame from the last "Capture frame", kept at full resolution
+  const capturedFrameRef = useRef<HTMLCanvasElement | null>(null);
 
   // States
   const [drawingMode, setDrawingMode] = useState<DrawingMode>("none");
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentPoint, setCurrentPoint] = useState<Point | null>(null);
-  const [shapes, setShapes] = useState<Shape[]>([]);
-  const [isWebcamAvailable, setIsWebcamAvailable] = useState(true);
+  // Every committed change to the shapes is one undo step. Drags and resizes
+  // go through `previewShapes` and are committed once on pointer up.
+  const {
+    value: shapes,
+    committed: committedShapes,
+    set: setShapes,
+    preview: previewShapes,
+    commit: commitShapes,
+    cancel: cancelShapes,
+    reset: resetShapes,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistory<Shape[]>(draft ?? []);
+  // Serialized shapes as last loaded from or saved to the server
+  const [savedJson, setSavedJson] = useState<string | null>(null);
   const [dragInfo, setDragInfo] = useState<DragInfo>(null);
   const [resizeInfo, setResizeInfo] = useState<ResizeInfo>(null);
   const [draggingPoint, setDraggingPoint] = useState<DraggingPoint>(null);
-  const [activePolygon, setActivePolygon] = useState<Point[]>([]);
+  const [pendingVertex, setPendingVertex] = useState<PendingVertex>(null);
+  const [radiusDrag, setRadiusDrag] = useState<RadiusDrag>(null);
+  const [rotateInfo, setRotateInfo] = useState<RotateInfo>(null);
+  // Points placed so far while drawing a polygon or a tripwire
+  const [activePath, setActivePath] = useState<Point[]>([]);
+  const isPathMode = drawingMode === "polygon" || drawingMode === "line";
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Intrinsic resolution of the video; the canvas is sized to match it
+  const [frameSize, setFrameSize] = useState<FrameSize>(camera.resolution);
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [marquee, setMarquee] = useState<Marquee>(null);
+  const [capture, setCapture] = useState<{ previewUrl: string; capturedAt: string } | null>(null);
+  // A press-drag-release gesture is under way (drawing, moving, resizing, selecting)
+  const isGestureActive =
+    isDrawing ||
+    !!(dragInfo || resizeInfo || draggingPoint || pendingVertex || radiusDrag || rotateInfo || marquee);
+  // Loaded from localStorage after mount, so server and client render alike
+  const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+  const { error: sourceError, imageUrl } = useMediaSource(videoRef, videoSource);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  // Alignment lines the point or shapes being dragged have snapped to, in source pixels
+  const [guides, setGuides] = useState<Guides>(NO_GUIDES);
+  const { viewport, isPanning, isSpaceHeld, zoomStep, fit, startPan, pinchBy } =
+    useViewport(viewportRef);
+  // Kind of pointer behind the current interaction ("mouse", "pen" or "touch")
+  const pointerTypeRef = useRef("mouse");
+  // Fingers on the canvas by pointer id, in client pixels
+  const touchesRef = useRef(new Map<number, Point>());
+  // The two-finger gesture in progress, as of the last move
+  const pinchRef = useRef<Pinch | null>(null);
+  // Set by a pinch so that lifting the fingers does not also count as a tap
+  const pinchedRef = useRef(false);
+
+  const [validationRules, setValidationRules] = useState<ValidationRules>(DEFAULT_VALIDATION_RULES);
+  // Broken rules of every shape; Submit stays blocked while there are any. Checked
+  // against the committed shapes, so drag previews don't rerun the overlap sampling
+  const issues = useMemo(
+    () => validateShapes(committedShapes, frameSize, validationRules),
+    [committedShapes, frameSize, validationRules]
+  );
+
+  /** Change the validation rules and remember them */
+  const changeValidationRules = (rules: ValidationRules) => {
+    setValidationRules(rules);
+    saveValidationRules(rules);
+  };
+
+  /** Switch snapping aids on or off and remember the choice */
+  const changeSnapSettings = (settings: SnapSettings) => {
+    setSnapSettings(settings);
+    saveSnapSettings(settings);
+  };
+
+  /** Switch the video source and remember it for this workspace */
+  const changeVideoSource = (source: VideoSource) => {
+    setVideoSource(source);
+    saveVideoSource(camera.id, source);
+  };
 
-  /** Convert mouse coordinates to canvas-relative coordinates */
+  /** Switch tools, dropping a half-drawn polygon or tripwire */
+  const selectTool = (mode: DrawingMode) => {
+    setDrawingMode(mode);
+    setActivePath([]);
+  };
+
+  /** Append a newly drawn shape, select it and open the side panel so it can be named */
+  const addShape = (type: Shape["type"], points: Point[], ellipse?: EllipseParams) => {
+    const id = uuidv4();
+    setShapes((prev) => [
+      ...prev,
+      { id, type, points, ...(ellipse && { ellipse }), ...getDefaultMetadata(prev.length + 1, type) },
+    ]);
+    setSelectedIds(new Set([id]));
+    setEditingId(id);
+    setIsDetailsOpen(true);
+  };
+
+  /** Finish the polygon (closing it) or tripwire being drawn, if it has enough points */
+  const finishPath = () => {
+    const isLine = drawingMode === "line";
+    if (activePath.length < (isLine ? 2 : 3)) {
+      toast.warning(isLine ? "A tripwire needs at least 2 points." : "A polygon needs at least 3 points.");
+      return;
+    }
+    addShape(isLine ? "line" : "polygon", isLine ? activePath : [...activePath, activePath[0]]);
+    setActivePath([]);
+    setDrawingMode("none");
+  };
+
+  /** Drop the polygon or tripwire being drawn, keeping its tool */
+  const cancelPath = () => {
+    setActivePath([]);
+    setCurrentPoint(null);
+  };
+
+  /** Take back the last point placed on the polygon or tripwire being drawn */
+  const removeLastPathPoint = () => setActivePath((prev) => prev.slice(0, -1));
+
+  /** Remove every selected shape (one undo step) */
+  const deleteSelected = () => {
+    if (selectedIds.size === 0) return;
+    setShapes((prev) => prev.filter((shape) => !selectedIds.has(shape.id)));
+    setSelectedIds(new Set());
+  };
+
+  /** Delete one vertex, keeping polygons at 3 and tripwires at 2 or more (one undo step) */
+  const removeVertex = (shapeIndex: number, pointIndex: number) => {
+    const shape = shapes[shapeIndex];
+    const isLine = shape.type === "line";
+    const points = isLine
+      ? removePathVertex(shape.points, pointIndex)
+      : removeRingVertex(shape.points, pointIndex);
+    if (!points) {
+      toast.warning(isLine ? "A tripwire needs at least 2 points." : "A polygon needs at least 3 points.");
+      return;
+    }
+    setShapes((prev) => prev.map((shape, i) => (i === shapeIndex ? { ...shape, points } : shape)));
+  };
+
+  /** Move every selected shape by a delta given in source pixels (one undo step) */
+  const nudgeSelected = (dx: number, dy: number) => {
+    if (selectedIds.size === 0) return;
+    const nx = dx / frameSize.width;
+    const ny = dy / frameSize.height;
+    setShapes((prev) =>
+      prev.map((shape) =>
+        selectedIds.has(shape.id)
+          ? translateShape(shape, nx, ny)
+          : shape
+      )
+    );
+  };
+
+  /** Reverse the counted crossing direction of every selected tripwire (one undo step) */
+  const flipSelected = () => {
+    setShapes((prev) =>
+      prev.map((shape) =>
+        selectedIds.has(shape.id) && shape.type === "line" ? { ...shape, flipped: !shape.flipped } : shape
+      )
+    );
+  };
+
+  /**
+   * Replace the selected area shapes with the result of a boolean operation
+   * (one undo step). The result takes the place of the lowest shape.
+   */
+  const combineSelected = (operation: BooleanOperation) => {
+    const selected = shapes.filter((shape) => selectedIds.has(shape.id) && isCombinable(shape));
+    if (selected.length < 2) {
+      toast.warning("Select at least two areas to combine.");
+      return;
+    }
+    let result: Shape[];
+    try {
+      result = combineShapes(selected, operation, frameSize);
+    } catch (err) {
+      // polygon-clipping gives up on some degenerate outlines
+      console.error("Failed to combine regions:", err);
+      toast.error("Could not combine the selected areas. Try simplifying their outlines.");
+      return;
+    }
+    if (result.length === 0) {
+      toast.warning(`${BOOLEAN_OPERATIONS[operation].label} leaves nothing of the selected areas.`);
+      return;
+    }
+    const combinedIds = new Set(selected.map((shape) => shape.id));
+    setShapes((prev) =>
+      prev.flatMap((shape) =>
+        shape.id === selected[0].id ? result : combinedIds.has(shape.id) ? [] : [shape]
+      )
+    );
+    setSelectedIds(new Set(result.map((shape) => shape.id)));
+  };
+
+  /** Apply metadata edited in the side panel */
+  const updateMetadata = (id: string, metadata: RegionMetadata) => {
+    setShapes((prev) => prev.map((shape) => (shape.id === id ? { ...shape, ...metadata } : shape)));
+    toast.success(`Saved "${metadata.name}".`);
+  };
+
+  /**
+   * Convert mouse coordinates to normalized (0..1) frame coordinates. The
+   * canvas rect already includes the zoom and pan transform, so this (and
+   * every screen-pixel measure built on the rect) holds at any zoom.
+   */
   const getCanvasCoordinates = (clientX: number, clientY: number): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
     return {
-      x: (clientX - rect.left) * scaleX,
-      y: (clientY - rect.top) * scaleY,
+      x: (clientX - rect.left) / rect.width,
+      y: (clientY - rect.top) / rect.height,
     };
   };
 
   /**
-   * Find the index of a shape that contains a given point (if any).
-   * 
-   * @param point - The mouse/canvas point to test.
-   * @returns The index of the shape (from topmost to bottommost), or null if none.
-  */
-  const getShapeAtPoint = (point: Point): number | null => {
-    // Loop backwards so top-most (latest drawn) shape is checked first
-    for (let i = shapes.length - 1; i >= 0; i--) {
-      const shape = shapes[i];
+   * Distance between two normalized points, measured in on-screen pixels.
+   * Hit-test thresholds use this so they feel the same at any resolution.
+   */
+  const getScreenDistance = (a: Point, b: Point): number => {
+    const canvas = canvasRef.current;
+    if (!canvas) return Infinity;
+    const rect = canvas.getBoundingClientRect();
+    return Math.hypot((a.x - b.x) * rect.width, (a.y - b.y) * rect.height);
+  };
 
-      // Extract all x and y coordinates of this shape
-      const xs = shape.points.map((p) => p.x);
-      const ys = shape.points.map((p) => p.y);
-
-      // Compute the bounding box of the shape
-      const minX = Math.min(...xs);
-      const maxX = Math.max(...xs);
-      const minY = Math.min(...ys);
-      const maxY = Math.max(...ys);
-
-      // Check if the given point lies inside the bounding box
-      if (
-        point.x >= minX &&
-        point.x <= maxX &&
-        point.y >= minY &&
-        point.y <= maxY
-      ) {
-        // Return index of the shape that contains the point
-        return i;
-      }
+  /** Build the corner points of a rectangle/square from a drag start/end */
+  const getRectPoints = (start: Point, end: Point): Point[] => {
+    if (drawingMode === "square") {
+      // Equal sides must be measured in pixels, not normalized units
+      const width = (end.x - start.x) * frameSize.width;
+      const height = (end.y - start.y) * frameSize.height;
+      const side = Math.max(Math.abs(width), Math.abs(height));
+      end = {
+        x: start.x + (width > 0 ? side : -side) / frameSize.width,
+        y: start.y + (height > 0 ? side : -side) / frameSize.height,
+      };
     }
+    return [
+      start,
+      { x: end.x, y: start.y },
+      end,
+      { x: start.x, y: end.y },
+      start, // close the shape
+    ];
+  };
 
-    // No shape found under this point
-    return null;
+  /** Circle or ellipse centered on the drag start, reaching out to the drag end */
+  const getEllipseFromDrag = (start: Point, end: Point): EllipseParams => {
+    const dx = (end.x - start.x) * frameSize.width;
+    const dy = (end.y - start.y) * frameSize.height;
+    // A circle's radius is measured in pixels so it stays round on any frame
+    const radius = Math.hypot(dx, dy);
+    const [rx, ry] = drawingMode === "circle" ? [radius, radius] : [Math.abs(dx), Math.abs(dy)];
+    return { center: start, rx: rx / frameSize.width, ry: ry / frameSize.height, rotation: 0 };
   };
 
+  /** The rectangle, square, circle or ellipse spanned by a drag, as it would be added */
+  const getDraggedShape = (start: Point, end: Point): Pick<Shape, "type" | "points" | "ellipse"> => {
+    if (drawingMode === "circle" || drawingMode === "ellipse") {
+      const ellipse = getEllipseFromDrag(start, end);
+      return { type: drawingMode, points: ellipseToPoints(ellipse, frameSize), ellipse };
+    }
+    return { type: drawingMode, points: getRectPoints(start, end) };
+  };
 
-  /** 
-   * Get corner information if the mouse point is near any corner of a rectangle/square.
-   * Used for resizing shapes by dragging their corners.
-  */
-  const getCornerAtPoint = (point: Point): ResizeInfo | null => {
-    const threshold = 10; // Maximum pixel distance allowed to "snap" to a corner
+  /** Convert normalized points to on-screen pixels relative to the canvas element */
+  const toScreenPoints = (points: Point[]): Point[] => {
+    const canvas = canvasRef.current;
+    if (!canvas) return points;
+    const rect = canvas.getBoundingClientRect();
+    return points.map((p) => ({ x: p.x * rect.width, y: p.y * rect.height }));
+  };
 
-    // Loop through all shapes (starting from the topmost one - last in array)
-    for (let i = shapes.length - 1; i >= 0; i--) {
+  /**
+   * Rotation handle of a rectangle or ellipse, in source pixels: the shape's
+   * center, the middle of its top edge, and the handle a little beyond it.
+   * `ratio` is canvas pixels per screen pixel (see getPixelRatio).
+   */
+  const getRotationHandle = (shape: Shape, ratio: number) => {
+    let center: Point;
+    let anchor: Point;
+    let rotation: number;
+    if (shape.ellipse) {
+      const ellipse = toPixelEllipse(shape.ellipse, frameSize);
+      const up = rotateVector({ x: 0, y: -ellipse.ry }, ellipse.rotation);
+      center = ellipse.center;
+      anchor = { x: center.x + up.x, y: center.y + up.y };
+      rotation = ellipse.rotation;
+    } else {
+      const [tl, tr, br] = shape.points.map((p) => toPixelPoint(p, frameSize));
+      center = midpoint(tl, br);
+      anchor = midpoint(tl, tr);
+      rotation = shape.rotation ?? 0;
+    }
+    // Straight "up" in the shape's own frame, whatever its size
+    const up = rotateVector({ x: 0, y: -1 }, rotation);
+    const offset = ROTATION_HANDLE_OFFSET * ratio;
+    return { center, anchor, handle: { x: anchor.x + up.x * offset, y: anchor.y + up.y * offset } };
+  };
+
+  /**
+   * Find what is under a given point, respecting z-order.
+   *
+   * Shapes are tested from topmost (latest drawn) to bottommost, and for each
+   * shape its handles win over its body: polygon and tripwire vertices, then
+   * rotation handles, rectangle corners and circle/ellipse radius handles (all
+   * only on selected shapes), then the interior or anywhere close to the
+   * outline. Tripwires have no interior. All tests run in screen pixels so
+   * the tolerances don't depend on video resolution or zoom; touch gets
+   * larger ones (see getHitTolerances).
+   *
+   * @param point - The normalized canvas point to test.
+   * @returns The hit, or null if the point is over empty canvas.
+   */
+  const getHitAtPoint = (point: Point): Hit | null => {
+    const [screenPoint] = toScreenPoints([point]);
+    const tolerances = getHitTolerances();
+
+    const screenPoints = shapes.map((shape) => toScreenPoints(shape.points));
+    const bodyIndex = getShapeAtPoint(
+      screenPoint,
+      shapes.map((shape, i) => toHitTarget(shape, screenPoints[i])),
+      tolerances.edge
+    );
+
+    // Selected shapes above the one under the point can still be grabbed by their handles
+    for (let i = shapes.length - 1; i >= Math.max(bodyIndex, 0); i--) {
       const shape = shapes[i];
+      const points = screenPoints[i];
 
-      // Only rectangles and squares have well-defined corners
-      if (shape.type === "rectangle" || shape.type === "square") {
-        // Extract the 4 corners of the shape
-        const [tl, tr, br, bl] = shape.points;
+      const isSelected = selectedIds.has(shape.id);
 
-        // Store corners with names for easier identification
-        const corners: Record<"tl" | "tr" | "bl" | "br", Point> = { tl, tr, br, bl };
+      // Polygon and tripwire vertices can be dragged individually once the shape
+      // is selected, and the ghost handle halfway along each edge adds a vertex there
+      if (isSelected && hasEditableVertices(shape)) {
+        const pointIndex = findVertexNear(screenPoint, points, tolerances.vertex);
+        if (pointIndex !== -1) return { kind: "vertex", shapeIndex: i, pointIndex };
 
-        // Check each corner to see if the given point is close enough
-        for (const cornerName in corners) {
-          const cornerPos = corners[cornerName as keyof typeof corners];
+        const midpoints = points.slice(1).map((p, j) => midpoint(points[j], p));
+        const segmentIndex = findVertexNear(screenPoint, midpoints, tolerances.vertex);
+        if (segmentIndex !== -1) return { kind: "midpoint", shapeIndex: i, segmentIndex };
+      }
 
-          // Calculate distance between mouse point and corner
-          const dx = point.x - cornerPos.x;
-          const dy = point.y - cornerPos.y;
+      // Selected rectangles and ellipses turn around their center
+      const canvas = canvasRef.current;
+      if (isSelected && isRotatable(shape) && canvas) {
+        const { handle } = getRotationHandle(shape, getPixelRatio(canvas));
+        const [handlePoint] = toScreenPoints([toNormalizedPoint(handle, frameSize)]);
+        if (distance(screenPoint, handlePoint) <= tolerances.corner) {
+          return { kind: "rotate", shapeIndex: i };
+        }
+      }
 
-          // If within threshold, return which shape and which corner was hit
-          if (Math.sqrt(dx * dx + dy * dy) <= threshold) {
-            return { shapeIndex: i, corner: cornerName as "tl" | "tr" | "bl" | "br" };
+      // Selected rectangles and squares resize from their corners
+      if (isSelected && (shape.type === "rectangle" || shape.type === "square")) {
+        const [tl, tr, br, bl] = points;
+        const corners: Record<Corner, Point> = { tl, tr, br, bl };
+        for (const corner of Object.keys(corners) as Corner[]) {
+          if (distance(screenPoint, corners[corner]) <= tolerances.corner) {
+            return { kind: "corner", shapeIndex: i, corner };
           }
         }
       }
+
+      // Selected circles and ellipses resize from the ends of their axes
+      if (isSelected && shape.ellipse) {
+        for (const handle of getRadiusHandles(shape.ellipse, frameSize)) {
+          const [handlePoint] = toScreenPoints([handle.point]);
+          if (distance(screenPoint, handlePoint) <= tolerances.corner) {
+            return { kind: "radius", shapeIndex: i, axis: handle.axis };
+          }
+        }
+      }
+
+      if (i === bodyIndex) return { kind: "body", shapeIndex: i };
     }
 
-    // If no corner was found within threshold, return null
+    // No shape found under this point
     return null;
   };
 
+  /** Hit-test tolerances for the pointer in use */
+  const getHitTolerances = () =>
+    pointerTypeRef.current === "touch" ? TOUCH_HIT_TOLERANCES : HIT_TOLERANCES;
 
-  /** Handle mouse down */
-  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const point = getCanvasCoordinates(event.clientX, event.clientY);
+  /** Grid spacing in source pixels, fine enough to be useful but never cramped on screen */
+  const getGridSize = () => {
+    const canvas = canvasRef.current;
+    return pickGridSize(canvas ? getPixelRatio(canvas) : 1);
+  };
 
-    // Check if the mouse click is on an existing polygon point
-    for (let i = shapes.length - 1; i >= 0; i--) {
-      const shape = shapes[i];
+  /** How close counts as snapping, in source pixels */
+  const getSnapTolerance = () => {
+    const canvas = canvasRef.current;
+    return SNAP_DISTANCE * (canvas ? getPixelRatio(canvas) : 1);
+  };
 
-      // Only apply this logic for polygons
-      if (shape.type === "polygon") {
-        // Loop through each point of the polygon
-        for (let j = 0; j < shape.points.length; j++) {
-          // Calculate distance from the clicked point to the polygon vertex
-          const dx = point.x - shape.points[j].x;
-          const dy = point.y - shape.points[j].y;
-
-          // If click is within 8px radius of a vertex, consider it as selecting that point
-          if (Math.sqrt(dx * dx + dy * dy) <= 8) {
-            // Store which polygon and which specific point is being dragged
-            setDraggingPoint({ shapeIndex: i, pointIndex: j });
-            return; // Exit once a point is found
-          }
+  /**
+   * What a shape offers to snap to, in source pixels. Circles and ellipses
+   * offer their center and axis ends rather than every approximating vertex.
+   */
+  const getSnapTarget = (shape: Shape): SnapTarget => {
+    const outline = shape.points.map((p) => toPixelPoint(p, frameSize));
+    const vertices = shape.ellipse
+      ? [shape.ellipse.center, ...getRadiusHandles(shape.ellipse, frameSize).map(({ point }) => point)]
+          .map((p) => toPixelPoint(p, frameSize))
+      : outline;
+    return { vertices, outline };
+  };
+
+  /** Snap targets of every shape but the excluded ones */
+  const getSnapTargets = (exclude: (shape: Shape) => boolean): SnapTarget[] =>
+    shapes.filter((shape) => !exclude(shape)).map(getSnapTarget);
+
+  /**
+   * Apply the enabled snapping aids to a cursor position. Shapes win, then
+   * an alignment guide per axis, then the grid on any axis still free. With
+   * `constrainFrom` the point is instead held at 0/45/90° from that point.
+   * Updates the guides to draw as a side effect.
+   *
+   * @param exclude - Shapes that must not attract the point (e.g. the one being edited).
+   */
+  const snapPoint = (
+    point: Point,
+    {
+      exclude = () => false,
+      constrainFrom,
+    }: { exclude?: (shape: Shape) => boolean; constrainFrom?: Point } = {}
+  ): Point => {
+    let p = toPixelPoint(point, frameSize);
+    let snappedGuides = NO_GUIDES;
+
+    if (constrainFrom) {
+      p = constrainAngle(toPixelPoint(constrainFrom, frameSize), p);
+    } else {
+      const tolerance = getSnapTolerance();
+      const targets = getSnapTargets(exclude);
+      const onShape = snapSettings.snapToShapes ? snapToShapes(p, targets, tolerance) : null;
+      if (onShape) {
+        p = onShape;
+      } else {
+        if (snapSettings.showGuides) {
+          const aligned = alignPoint(p, getAlignmentLines(targets), tolerance);
+          p = aligned.point;
+          snappedGuides = aligned.guides;
+        }
+        if (snapSettings.snapToGrid) {
+          const onGrid = snapToGrid(p, getGridSize());
+          p = { x: snappedGuides.x.length ? p.x : onGrid.x, y: snappedGuides.y.length ? p.y : onGrid.y };
         }
       }
     }
 
+    setGuides(snappedGuides);
+    return toNormalizedPoint(p, frameSize);
+  };
 
-    const resizeTarget = getCornerAtPoint(point);
-    if (resizeTarget) {
-      setResizeInfo(resizeTarget);
-      return;
+  /**
+   * Snap a group move: the moved shapes' vertices to other shapes, else their
+   * bounds to alignment guides, then their top-left corner to the grid.
+   *
+   * @param delta - The raw movement, normalized.
+   * @returns The movement to apply, normalized.
+   */
+  const snapDrag = (originals: Shape[], delta: Point): Point => {
+    const moving = new Set(originals.map((shape) => shape.id));
+    const moved = originals.map((shape) => translateShape(shape, delta.x, delta.y));
+    const tolerance = getSnapTolerance();
+    const targets = getSnapTargets((shape) => moving.has(shape.id));
+    let offset: Point = { x: 0, y: 0 };
+    let snappedGuides = NO_GUIDES;
+
+    const onShape = snapSettings.snapToShapes
+      ? snapPointsToShapes(moved.flatMap((shape) => getSnapTarget(shape).vertices), targets, tolerance)
+      : null;
+
+    if (onShape) {
+      offset = onShape;
+    } else {
+      const bounds = getBounds(
+        moved.flatMap((shape) => shape.points.map((p) => toPixelPoint(p, frameSize)))
+      );
+      if (snapSettings.showGuides) {
+        const aligned = alignBounds(bounds, getAlignmentLines(targets), tolerance);
+        offset = aligned.offset;
+        snappedGuides = aligned.guides;
+      }
+      if (snapSettings.snapToGrid) {
+        const corner = snapToGrid({ x: bounds.minX, y: bounds.minY }, getGridSize());
+        offset = {
+          x: snappedGuides.x.length ? offset.x : corner.x - bounds.minX,
+          y: snappedGuides.y.length ? offset.y : corner.y - bounds.minY,
+        };
+      }
     }
 
-    const shapeIndex = getShapeAtPoint(point);
-    if (shapeIndex !== null) {
-      const shape = shapes[shapeIndex];
-      setDragInfo({
-        shapeIndex,
-        offsetX: point.x - shape.points[0].x,
-        offsetY: point.y - shape.points[0].y,
-      });
+    setGuides(snappedGuides);
+    return { x: delta.x + offset.x / frameSize.width, y: delta.y + offset.y / frameSize.height };
+  };
+
+  /**
+   * A shape for the hit test, in screen pixels; circles and ellipses keep
+   * their exact outline, and holes are left out of the interior (as drawn)
+   */
+  const toHitTarget = (shape: Shape, screenPoints: Point[]): HitTarget => {
+    const canvas = canvasRef.current;
+    let ellipse: HitTarget["ellipse"];
+    if (shape.ellipse && canvas) {
+      const { width, height } = canvas.getBoundingClientRect();
+      ellipse = toPixelEllipse(shape.ellipse, { width, height });
+    }
+    return {
+      outline: screenPoints,
+      holes: (shape.holes ?? []).map((hole) => toScreenPoints(hole)),
+      closed: shape.type !== "line",
+      ellipse,
+    };
+  };
+
+  /** Midpoint and spread of the two fingers on the canvas */
+  const getPinch = (): Pinch | null => {
+    const [a, b] = [...touchesRef.current.values()];
+    if (!a || !b) return null;
+    return { ...midpoint(a, b), distance: distance(a, b) };
+  };
+
+  /**
+   * Handle pointer down (mouse, pen or finger). The canvas captures the
+   * pointer, so a drag keeps going even when it strays off the canvas.
+   */
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointerTypeRef.current = event.pointerType;
+    // A fresh gesture; the fingers of an earlier pinch are all gone
+    if (touchesRef.current.size === 0) pinchedRef.current = false;
+
+    if (event.pointerType === "touch") {
+      touchesRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      // A second finger turns whatever the first one started into a pinch
+      if (touchesRef.current.size === 2) {
+        cancelGesture();
+        pinchRef.current = getPinch();
+        pinchedRef.current = true;
+      }
+      if (touchesRef.current.size > 1) return;
+    }
+
+    // Middle-drag, or any drag while Space is held, pans the view
+    if (event.button === 1 || isSpaceHeld) {
+      event.preventDefault();
+      startPan(event.pointerId, event.clientX, event.clientY);
       return;
     }
 
+    const point = getCanvasCoordinates(event.clientX, event.clientY);
+
+    // With a drawing tool active, every press starts a new shape
     if (drawingMode !== "none") {
+      const start = snapPoint(point);
       setIsDrawing(true);
-      setStartPoint(point);
-      setCurrentPoint(point);
+      setStartPoint(start);
+      setCurrentPoint(start);
+      return;
     }
+
+    const hit = getHitAtPoint(point);
+
+    if (hit?.kind === "vertex") {
+      // Alt-click deletes the vertex instead of dragging it
+      if (event.altKey) {
+        removeVertex(hit.shapeIndex, hit.pointIndex);
+        return;
+      }
+      // Store which polygon and which specific point is being dragged
+      setDraggingPoint({ shapeIndex: hit.shapeIndex, pointIndex: hit.pointIndex });
+      return;
+    }
+
+    if (hit?.kind === "midpoint") {
+      // The ghost handle becomes a real vertex on the first real move, so a plain click adds nothing
+      setPendingVertex({ shapeIndex: hit.shapeIndex, segmentIndex: hit.segmentIndex, origin: point });
+      return;
+    }
+
+    if (hit?.kind === "corner") {
+      setResizeInfo({ shapeIndex: hit.shapeIndex, corner: hit.corner });
+      return;
+    }
+
+    if (hit?.kind === "radius") {
+      setRadiusDrag({ shapeIndex: hit.shapeIndex, axis: hit.axis });
+      return;
+    }
+
+    if (hit?.kind === "rotate") {
+      const shape = shapes[hit.shapeIndex];
+      const { center } = getRotationHandle(shape, 1);
+      const cursor = toPixelPoint(point, frameSize);
+      setRotateInfo({
+        shapeIndex: hit.shapeIndex,
+        original: shape,
+        startAngle: Math.atan2(cursor.y - center.y, cursor.x - center.x),
+      });
+      return;
+    }
+
+    if (hit?.kind === "body") {
+      const { id } = shapes[hit.shapeIndex];
+
+      // Shift-click toggles the shape in or out of the selection
+      if (event.shiftKey) {
+        setSelectedIds((prev) => {
+          const next = new Set(prev);
+          if (next.has(id)) next.delete(id);
+          else next.add(id);
+          return next;
+        });
+        return;
+      }
+
+      // Pressing an unselected shape selects just that shape; then move the whole selection
+      const selection = selectedIds.has(id) ? selectedIds : new Set([id]);
+      setSelectedIds(selection);
+      setDragInfo({
+        origin: point,
+        originals: shapes.filter((shape) => selection.has(shape.id)),
+      });
+      return;
+    }
+
+    // Empty canvas: start a marquee; without Shift it replaces the selection
+    if (!event.shiftKey) setSelectedIds(new Set());
+    setMarquee({ start: point, end: point, additive: event.shiftKey });
   };
 
-  /** Handle canvas click for polygon */
+  /**
+   * Handle canvas click for polygons and tripwires: every click places a point.
+   * A polygon closes on its first point, a tripwire ends on its last one
+   * (so a double-click finishes it).
+   */
   const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    // The end of a Space-drag pan or a pinch is not a point
+    if (isSpaceHeld || pinchedRef.current) return;
+
+    if (drawingMode === "line") {
+      const point = getCanvasCoordinates(event.clientX, event.clientY);
+      const lastPoint = activePath[activePath.length - 1];
+      if (lastPoint && getScreenDistance(point, lastPoint) <= getHitTolerances().vertex) {
+        if (activePath.length >= 2) finishPath();
+        return;
+      }
+      setActivePath((prev) => [...prev, snapPathPoint(point, event.shiftKey)]);
+    }
+
     if (drawingMode === "polygon") {
       const point = getCanvasCoordinates(event.clientX, event.clientY);
 
-      if (activePolygon.length >= 3) {
-        const firstPoint = activePolygon[0];
-        const dx = point.x - firstPoint.x;
-        const dy = point.y - firstPoint.y;
-        if (Math.sqrt(dx * dx + dy * dy) <= 8) {
-          setShapes((prev) => [
-            ...prev,
-            { type: "polygon", points: [...activePolygon, firstPoint] },
-          ]);
-          setActivePolygon([]);
-          setDrawingMode("none");
+      if (activePath.length >= 3) {
+        const firstPoint = activePath[0];
+        if (getScreenDistance(point, firstPoint) <= getHitTolerances().vertex) {
+          finishPath();
           return;
         }
       }
-      setActivePolygon((prev) => [...prev, point]);
+      setActivePath((prev) => [...prev, snapPathPoint(point, event.shiftKey)]);
     }
   };
 
+  /** Next point of a polygon or tripwire in progress; Shift holds the new edge at 0/45/90° */
+  const snapPathPoint = (point: Point, shiftKey: boolean) => {
+    const lastPoint = activePath[activePath.length - 1];
+    return snapPoint(point, shiftKey && lastPoint ? { constrainFrom: lastPoint } : {});
+  };
+
   /** 
-   * Handle mouse movement over the canvas. 
+   * Handle pointer movement over the canvas. A second finger pinches instead.
    * This updates shapes depending on the current action:
    * - dragging polygon point
    * - drawing new shape
-   * - dragging/moving entire shape
+   * - dragging/moving the selected shapes
+   * - sizing the selection marquee
    * - resizing shape by corner
+   * - resizing a circle/ellipse by a radius handle
+   * - rotating a rectangle/ellipse by its rotation handle (Shift snaps to 15°)
+   * Drawing, vertex drags, moves and corner resizes go through the enabled snapping aids.
   */
-  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    // Convert raw mouse coordinates to canvas coordinates
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerType === "touch" && touchesRef.current.has(event.pointerId)) {
+      touchesRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      const pinch = getPinch();
+      if (pinchRef.current && pinch) {
+        pinchBy(pinchRef.current, pinch);
+        pinchRef.current = pinch;
+      }
+    }
+    // Once two fingers have been down, nothing is drawn until they all lift
+    if (pinchedRef.current && touchesRef.current.size > 0) return;
+
+    // Convert raw pointer coordinates to canvas coordinates
     const point = getCanvasCoordinates(event.clientX, event.clientY);
 
+    // A pressed midpoint handle turns into a vertex once the pointer has really moved;
+    // insert + drag is one undo step
+    if (pendingVertex) {
+      if (getScreenDistance(pendingVertex.origin, point) <= 3) return;
+      const { shapeIndex, segmentIndex } = pendingVertex;
+      previewShapes((prev) =>
+        prev.map((shape, i) =>
+          i === shapeIndex
+            ? {
+                ...shape,
+                points: insertRingVertex(
+                  shape.points,
+                  segmentIndex,
+                  snapPoint(point, { exclude: (other) => other.id === shape.id })
+                ),
+              }
+            : shape
+        )
+      );
+      setPendingVertex(null);
+      setDraggingPoint({ shapeIndex, pointIndex: segmentIndex + 1 });
+      return;
+    }
+
     // Case 1: Dragging a single point (e.g., polygon vertex)
     if (draggingPoint) {
       const { shapeIndex, pointIndex } = draggingPoint;
       const newShapes = [...shapes];
       const shape = newShapes[shapeIndex];
 
-      // Update dragged point
-      shape.points[pointIndex] = point;
+      // Shift holds the edge to the previous vertex at 0/45/90°; a ring's first
+      // vertex follows its last real one, a tripwire's first its second
+      const isRing = shape.type === "polygon";
+      const previousIndex =
+        pointIndex > 0 ? pointIndex - 1 : isRing ? shape.points.length - 2 : 1;
+      const snapped = snapPoint(point, {
+        exclude: (other) => other.id === shape.id,
+        constrainFrom: event.shiftKey ? shape.points[previousIndex] : undefined,
+      });
+
+      // Update dragged point (on a copy, earlier history entries share the old array)
+      const points = [...shape.points];
+      points[pointIndex] = snapped;
 
-      // If polygon, keep first & last point the same
+      // If polygon, keep first & last point the same (tripwires are open, so not those)
       if (shape.type === "polygon") {
         if (pointIndex === 0) {
           // First point moved → update last point
-          shape.points[shape.points.length - 1] = point;
-        } else if (pointIndex === shape.points.length - 1) {
+          points[points.length - 1] = snapped;
+        } else if (pointIndex === points.length - 1) {
           // Last point moved → update first point
-          shape.points[0] = point;
+          points[0] = snapped;
         }
       }
 
-      setShapes(newShapes);
+      newShapes[shapeIndex] = { ...shape, points };
+      previewShapes(newShapes);
 
-    // Case 2: Currently drawing (update live preview of shape)
+    // Case 2: Currently drawing (update live preview of shape, or the
+    // rubber-band segment to the cursor of a polygon/tripwire in progress)
+    } else if (isPathMode && activePath.length > 0) {
+      setCurrentPoint(snapPathPoint(point, event.shiftKey));
     } else if (isDrawing && startPoint) {
-      setCurrentPoint(point);
+      setCurrentPoint(snapPoint(point));
 
-    // Case 3: Dragging/moving the whole shape
+    // Case 3: Dragging/moving the selected shapes together
     } else if (dragInfo) {
-      const { shapeIndex, offsetX, offsetY } = dragInfo;
-      const shape = shapes[shapeIndex];
-      const newShapes = [...shapes];
+      const { origin, originals } = dragInfo;
 
-      // Compute movement delta relative to first point of shape
-      const dx = point.x - offsetX - shape.points[0].x;
-      const dy = point.y - offsetY - shape.points[0].y;
+      // Movement since the drag started
+      const { x: dx, y: dy } = snapDrag(originals, { x: point.x - origin.x, y: point.y - origin.y });
 
-      // Shift every point of the shape by (dx, dy)
-      newShapes[shapeIndex] = {
-        ...shape,
-        points: shape.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
-      };
+      // Shift every point of every dragged shape by (dx, dy)
+      previewShapes((prev) =>
+        prev.map((shape) => {
+          const original = originals.find((o) => o.id === shape.id);
+          if (!original) return shape;
+          return translateShape(original, dx, dy);
+        })
+      );
 
-      setShapes(newShapes);
+    // Case 4: Rubber-band selection
+    } else if (marquee) {
+      setMarquee({ ...marquee, end: point });
 
-    // Case 4: Resizing a rectangle/square by dragging a corner
+    // Case 5: Resizing a rectangle/square by dragging a corner
     } else if (resizeInfo) {
       const { shapeIndex, corner } = resizeInfo;
       const shape = shapes[shapeIndex];
-      const [tl, tr, br, bl] = shape.points; // corners
-      let newPoints = [...shape.points];
-
-      // Adjust corners based on which one is being dragged
-      switch (corner) {
-        case "tl": // top-left corner
-          newPoints = [point, { x: tr.x, y: point.y }, br, { x: point.x, y: bl.y }, point];
-          break;
-        case "tr": // top-right corner
-          newPoints = [
-            { x: tl.x, y: point.y },
-            point,
-            { x: point.x, y: br.y },
-            bl,
-            { x: tl.x, y: point.y },
-          ];
-          break;
-        case "bl": // bottom-left corner
-          newPoints = [
-            { x: point.x, y: tl.y },
-            tr,
-            br,
-            point,
-            { x: point.x, y: tl.y },
-          ];
-          break;
-        case "br": // bottom-right corner
-          newPoints = [tl, { x: point.x, y: tl.y }, point, { x: tl.x, y: point.y }, tl];
-          break;
-      }
+      const rotation = shape.rotation ?? 0;
+
+      // Work in the rectangle's own (unrotated) frame, in source pixels, with
+      // the opposite corner pinned at the origin
+      const corners = shape.points.slice(0, 4).map((p) => toPixelPoint(p, frameSize));
+      const pinned = corners[CORNER_ORDER.indexOf(OPPOSITE_CORNER[corner])];
+      const snapped = snapPoint(point, { exclude: (other) => other.id === shape.id });
+      const cursor = toPixelPoint(snapped, frameSize);
+      const local = rotateVector({ x: cursor.x - pinned.x, y: cursor.y - pinned.y }, -rotation);
+
+      // A corner follows the cursor's x when it is on the dragged corner's
+      // left/right side, and its y when it is on the same top/bottom side
+      const resized = CORNER_ORDER.map((name) => {
+        const offset = rotateVector(
+          { x: name[1] === corner[1] ? local.x : 0, y: name[0] === corner[0] ? local.y : 0 },
+          rotation
+        );
+        return toNormalizedPoint({ x: pinned.x + offset.x, y: pinned.y + offset.y }, frameSize);
+      });
+      const newPoints = [...resized, resized[0]];
 
       // Update shape in state
-      setShapes((prev) => {
+      previewShapes((prev) => {
         const newArr = [...prev];
         newArr[shapeIndex] = { ...shape, points: newPoints };
         return newArr;
       });
-    }
-  };
 
-
-  /** Handle mouse up */
-  const handleMouseUp = () => {
-    if (isDrawing && startPoint && currentPoint && drawingMode !== "polygon") {
-      let rectPoints: Point[];
-      if (drawingMode === "square") {
-        const width = currentPoint.x - startPoint.x;
-        const height = currentPoint.y - startPoint.y;
-        const side = Math.max(Math.abs(width), Math.abs(height));
-        const endX = startPoint.x + (width > 0 ? side : -side);
-        const endY = startPoint.y + (height > 0 ? side : -side);
-        rectPoints = [
-          startPoint,
-          { x: endX, y: startPoint.y },
-          { x: endX, y: endY },
-          { x: startPoint.x, y: endY },
-          startPoint,
-        ];
+    // Case 6: Resizing a circle/ellipse by one of its radius handles
+    } else if (radiusDrag) {
+      const { shapeIndex, axis } = radiusDrag;
+      const shape = shapes[shapeIndex];
+      if (!shape.ellipse) return;
+
+      // Measure the cursor in the ellipse's own axes, in source pixels
+      const center = toPixelPoint(shape.ellipse.center, frameSize);
+      const cursor = toPixelPoint(point, frameSize);
+      const local = rotateVector(
+        { x: cursor.x - center.x, y: cursor.y - center.y },
+        -shape.ellipse.rotation
+      );
+      const ellipse = { ...shape.ellipse };
+      if (shape.type === "circle") {
+        const radius = Math.hypot(local.x, local.y);
+        ellipse.rx = radius / frameSize.width;
+        ellipse.ry = radius / frameSize.height;
+      } else if (axis === "x") {
+        ellipse.rx = Math.abs(local.x) / frameSize.width;
       } else {
-        rectPoints = [
-          startPoint,
-          { x: currentPoint.x, y: startPoint.y },
-          currentPoint,
-          { x: startPoint.x, y: currentPoint.y },
-          startPoint,
-        ];
+        ellipse.ry = Math.abs(local.y) / frameSize.height;
       }
-      setShapes((prev) => [...prev, { type: drawingMode, points: rectPoints }]);
+
+      previewShapes((prev) =>
+        prev.map((current, i) =>
+          i === shapeIndex ? { ...current, ellipse, points: ellipseToPoints(ellipse, frameSize) } : current
+        )
+      );
+
+    // Case 7: Rotating a rectangle/ellipse around its center
+    } else if (rotateInfo) {
+      const { shapeIndex, original, startAngle } = rotateInfo;
+      const { center } = getRotationHandle(original, 1);
+      const cursor = toPixelPoint(point, frameSize);
+      const initial = original.ellipse?.rotation ?? original.rotation ?? 0;
+      let rotation = initial + Math.atan2(cursor.y - center.y, cursor.x - center.x) - startAngle;
+      if (event.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+      const delta = rotation - initial;
+      rotation = normalizeAngle(rotation);
+
+      const rotated: Shape = original.ellipse
+        ? {
+            ...original,
+            ellipse: { ...original.ellipse, rotation },
+            points: ellipseToPoints({ ...original.ellipse, rotation }, frameSize),
+          }
+        : {
+            ...original,
+            rotation,
+            points: original.points.map((p) =>
+              toNormalizedPoint(rotateAround(toPixelPoint(p, frameSize), center, delta), frameSize)
+            ),
+          };
+      previewShapes((prev) => prev.map((current, i) => (i === shapeIndex ? rotated : current)));
     }
+  };
 
+
+  /** Clear every in-progress gesture */
+  const resetGesture = () => {
     setIsDrawing(false);
     setStartPoint(null);
     setCurrentPoint(null);
     setDragInfo(null);
     setResizeInfo(null);
     setDraggingPoint(null);
+    setPendingVertex(null);
+    setRadiusDrag(null);
+    setRotateInfo(null);
+    setMarquee(null);
+    setGuides(NO_GUIDES);
+  };
+
+  /** Abandon the gesture in progress without recording it, undoing its preview */
+  const cancelGesture = () => {
+    cancelShapes();
+    resetGesture();
+  };
+
+  /** Handle pointer up: finish the gesture in progress */
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerType === "touch") {
+      touchesRef.current.delete(event.pointerId);
+      if (touchesRef.current.size < 2) pinchRef.current = null;
+      if (pinchedRef.current) return;
+    }
+
+    if (isDrawing && startPoint && currentPoint && !isPathMode) {
+      const { type, points, ellipse } = getDraggedShape(startPoint, currentPoint);
+      // A click without a drag would leave a shape with no size
+      if (getScreenDistance(startPoint, currentPoint) > 3) addShape(type, points, ellipse);
+    }
+
+    // Select every shape whose bounds touch the marquee (a plain click selects nothing)
+    if (marquee && getScreenDistance(marquee.start, marquee.end) > 3) {
+      const area = getBounds([marquee.start, marquee.end]);
+      const inside = shapes
+        .filter((shape) => boundsIntersect(getBounds(shape.points), area))
+        .map((shape) => shape.id);
+      setSelectedIds((prev) => new Set([...(marquee.additive ? prev : []), ...inside]));
+    }
+
+    // A whole drag/resize/vertex move becomes a single undo step
+    commitShapes();
+    resetGesture();
+  };
+
+  /** The browser took the pointer away (e.g. a system gesture): drop what it was doing */
+  const handlePointerCancel = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    touchesRef.current.delete(event.pointerId);
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+    cancelGesture();
+  };
+
+  /** Hovering off the canvas hides the rubber-band segment; captured drags carry on */
+  const handlePointerLeave = () => {
+    if (isPathMode) setCurrentPoint(null);
+    setGuides(NO_GUIDES);
+  };
+
+  /**
+   * Double-click a polygon or tripwire edge to insert a vertex there,
+   * or anywhere else on a shape to edit its details in the side panel.
+   */
+  const handleDoubleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (drawingMode !== "none") return;
+    const point = getCanvasCoordinates(event.clientX, event.clientY);
+    const hit = getHitAtPoint(point);
+    if (!hit) return;
+
+    const shape = shapes[hit.shapeIndex];
+    if (hasEditableVertices(shape) && hit.kind === "body") {
+      const [screenPoint] = toScreenPoints([point]);
+      const segment = findSegmentNear(screenPoint, toScreenPoints(shape.points), getHitTolerances().edge);
+      if (segment) {
+        const vertex = lerp(shape.points[segment.index], shape.points[segment.index + 1], segment.t);
+        setShapes((prev) =>
+          prev.map((current, i) =>
+            i === hit.shapeIndex
+              ? { ...current, points: insertRingVertex(current.points, segment.index, vertex) }
+              : current
+          )
+        );
+        return;
+      }
+    }
+
+    // Double-clicking a handle is almost always a missed drag, not a request for details
+    if (hit.kind !== "body") return;
+    setEditingId(shape.id);
+    setIsDetailsOpen(true);
+  };
+
+  /** Right-click a polygon or tripwire vertex to delete it */
+  const handleContextMenu = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    // On touch this is a long press, usually just a finger resting before a drag
+    if (pointerTypeRef.current === "touch") {
+      event.preventDefault();
+      return;
+    }
+    const hit = getHitAtPoint(getCanvasCoordinates(event.clientX, event.clientY));
+    if (hit?.kind !== "vertex") return;
+    event.preventDefault();
+    removeVertex(hit.shapeIndex, hit.pointIndex);
   };
 
   /** Select whole area */
   const selectWholeArea = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
     const rectPoints: Point[] = [
       { x: 0, y: 0 },
-      { x: canvas.width, y: 0 },
-      { x: canvas.width, y: canvas.height },
-      { x: 0, y: canvas.height },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0, y: 1 },
       { x: 0, y: 0 },
     ];
-    const wholeAreaShape: Shape = { type: "rectangle", points: rectPoints };
-    setShapes((prev) => [...prev, wholeAreaShape]);
+    addShape("rectangle", rectPoints);
+  };
+
+  /** Submit: replace the saved region set with what is on the canvas; an empty canvas clears it */
+  const handleSubmit = async () => {
+    if (issues.length > 0) {
+      toast.error("Some regions break the validation rules. Fix them before submitting.");
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      // The captured frame goes along as the reference the regions were drawn on
+      // (a cleared canvas has nothing for it to be the reference of)
+      const frameCanvas = capturedFrameRef.current;
+      const snapshot: FrameSnapshot | undefined =
+        frameCanvas && capture && shapes.length > 0
+          ? {
+              frame: frameCanvas.toDataURL("image/jpeg", 0.92),
+              annotated: renderAnnotatedFrame(frameCanvas).toDataURL("image/jpeg", 0.92),
+              capturedAt: capture.capturedAt,
+            }
+          : undefined;
+
+      const submitted = shapes;
+      const res = await fetch(`/api/regions?cameraId=${encodeURIComponent(camera.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        // Each shape carries both its normalized and its source-pixel points
+        body: JSON.stringify({
+          shapes: shapes.map((shape) => toRegionPayload(shape, frameSize)),
+          snapshot,
+        }),
+      });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      setSavedJson(JSON.stringify(submitted));
+      if (shapes.length === 0) {
+        toast.success("Cleared the saved regions of this camera.");
+      } else {
+        toast.success(
+          `Successfully submitted ${shapes.length} shape(s)${snapshot ? " with the captured frame" : ""}.`
+        );
+      }
+      // The server keeps the reference; the next submit doesn't need to resend it
+      if (snapshot) discardCapture();
+    } catch (err) {
+      console.error("Failed to save regions:", err);
+      toast.error("Could not save the regions. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /** Grab the current video frame to download or submit as a reference */
+  const captureFrame = () => {
+    const media = imageUrl ? imageRef.current : videoRef.current;
+    if (!media) return;
+    try {
+      const frameCanvas = captureVideoFrame(media);
+      capturedFrameRef.current = frameCanvas;
+      setCapture({
+        previewUrl: frameCanvas.toDataURL("image/jpeg", 0.6),
+        capturedAt: new Date().toISOString(),
+      });
+      toast.success("Frame captured. It will be attached to the next submit.");
+    } catch (err) {
+      console.error("Failed to capture frame:", err);
+      toast.error(err instanceof Error ? err.message : "Could not capture the frame.");
+    }
+  };
+
+  const discardCapture = () => {
+    capturedFrameRef.current = null;
+    setCapture(null);
+  };
+
+  /** Composite the current shapes onto a copy of a captured frame */
+  const renderAnnotatedFrame = (frameCanvas: HTMLCanvasElement) => {
+    const annotated = document.createElement("canvas");
+    annotated.width = frameCanvas.width;
+    annotated.height = frameCanvas.height;
+    const ctx = annotated.getContext("2d");
+    if (!ctx) return annotated;
+    ctx.drawImage(frameCanvas, 0, 0);
+    // Draw at the on-screen scale so the image looks like what the user sees
+    const ratio = canvasRef.current ? getPixelRatio(canvasRef.current) : 1;
+    shapes.forEach((shape) => drawShape(ctx, shape, { ratio }));
+    return annotated;
   };
 
-  /** Submit */
-  const handleSubmit = () => {
+  /** Download the captured frame, raw or with the shapes drawn on it */
+  const downloadCapture = async (annotated: boolean, format: ImageFormat) => {
+    const frameCanvas = capturedFrameRef.current;
+    if (!frameCanvas || !capture) return;
+    const source = annotated ? renderAnnotatedFrame(frameCanvas) : frameCanvas;
+    const stamp = capture.capturedAt.replace(/[:.]/g, "-");
+    const fileName = `frame-${stamp}${annotated ? "-annotated" : ""}.${format === "jpeg" ? "jpg" : "png"}`;
+    try {
+      downloadFile(await canvasToBlob(source, format), fileName, `image/${format}`);
+    } catch (err) {
+      console.error("Failed to download the captured frame:", err);
+      toast.error("Could not encode the captured frame. Please try again.");
+    }
+  };
+
+  /** Download the current shapes as GeoJSON, COCO or Pascal VOC */
+  const handleExport = (format: RegionFormat) => {
     if (shapes.length === 0) {
-      toast.warning("Canvas is empty. Draw something to submit!");
+      toast.warning("Canvas is empty. Draw something to export!");
       return;
     }
-    const data = shapes.map((shape) => (shape.points))
-    console.log("Submitted Shapes:", data);
-    toast.success(`Successfully submitted ${shapes.length} shape(s).`);
+    const { extension, mimeType } = REGION_FORMATS[format];
+    downloadFile(exportRegions(shapes, frameSize, format), `regions.${extension}`, mimeType);
+  };
+
+  /** Replace the canvas contents with the regions of an annotation file (one undo step) */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const { shapes: imported } = importRegions(await file.text(), frameSize);
+      setShapes(imported);
+      setSelectedIds(new Set());
+      toast.success(`Imported ${imported.length} region(s) from ${file.name}.`);
+    } catch (err) {
+      console.error("Failed to import regions:", err);
+      toast.error(err instanceof Error ? err.message : "Could not import the file.");
+    }
   };
 
-  /** Draw shape */
-  const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
+  /**
+   * Canvas pixels per on-screen pixel. The canvas runs at the video's native
+   * resolution and may be zoomed, so strokes and handles are scaled to keep a
+   * constant size.
+   */
+  const getPixelRatio = (canvas: HTMLCanvasElement) =>
+    canvas.width / (canvas.getBoundingClientRect().width || canvas.width);
+
+  /** Draw shape, plus its selection outline and handles when selected */
+  const drawShape = (
+    ctx: CanvasRenderingContext2D,
+    shape: Shape,
+    {
+      withLabel = true,
+      isSelected = false,
+      isInvalid = false,
+      ratio = getPixelRatio(ctx.canvas),
+    }: { withLabel?: boolean; isSelected?: boolean; isInvalid?: boolean; ratio?: number } = {}
+  ) => {
+    const points = shape.points.map((p) => toPixelPoint(p, ctx.canvas));
+    ctx.lineWidth = 2 * ratio;
+    ctx.strokeStyle = shape.color;
     ctx.beginPath();
-    ctx.moveTo(shape.points[0].x, shape.points[0].y);
-    for (let i = 1; i < shape.points.length; i++) {
-      ctx.lineTo(shape.points[i].x, shape.points[i].y);
+    if (shape.ellipse) {
+      // Stroke the exact curve rather than its polygon approximation
+      const { center, rx, ry, rotation } = toPixelEllipse(shape.ellipse, ctx.canvas);
+      ctx.ellipse(center.x, center.y, rx, ry, rotation, 0, Math.PI * 2);
+    } else {
+      // Holes are subpaths of the same path, so the even-odd fill leaves them empty
+      const holes = (shape.holes ?? []).map((hole) => hole.map((p) => toPixelPoint(p, ctx.canvas)));
+      for (const ring of [points, ...holes]) {
+        ctx.moveTo(ring[0].x, ring[0].y);
+        for (let i = 1; i < ring.length; i++) {
+          ctx.lineTo(ring[i].x, ring[i].y);
+        }
+      }
+    }
+
+    // Shapes breaking a validation rule get a red dashed outline over their own
+    if (isInvalid) {
+      ctx.save();
+      ctx.setLineDash([6 * ratio, 4 * ratio]);
+      ctx.lineWidth = 3 * ratio;
+      ctx.strokeStyle = "#ef4444";
+      ctx.stroke();
+      ctx.restore();
     }
+
+    // Tripwires are open paths: thicker when selected instead of filled
+    if (shape.type === "line") {
+      ctx.lineWidth = (isSelected ? 3 : 2) * ratio;
+      ctx.stroke();
+      drawDirectionArrows(ctx, shape, points, ratio);
+    } else {
+      ctx.stroke();
+      ctx.fillStyle = withAlpha(shape.color, isSelected ? 0.3 : 0.15);
+      ctx.fill("evenodd");
+    }
+
+    if (isSelected) drawSelection(ctx, shape, points, ratio);
+    if (withLabel) drawLabel(ctx, shape, points, ratio);
+  };
+
+  /** An arrow off the middle of every tripwire segment, pointing the counted way across */
+  const drawDirectionArrows = (
+    ctx: CanvasRenderingContext2D,
+    shape: Shape,
+    points: Point[],
+    ratio: number
+  ) => {
+    const length = DIRECTION_ARROW_LENGTH * ratio;
+    const head = 6 * ratio;
+    ctx.save();
+    ctx.lineWidth = 2 * ratio;
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    points.slice(1).forEach((p, i) => {
+      const normal = segmentNormal(points[i], p, shape.flipped);
+      if (!normal.x && !normal.y) return;
+      const start = midpoint(points[i], p);
+      const tip = { x: start.x + normal.x * length, y: start.y + normal.y * length };
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.stroke();
+      // Arrow head: back from the tip, spread along the segment
+      ctx.beginPath();
+      ctx.moveTo(tip.x + normal.x * head * 0.5, tip.y + normal.y * head * 0.5);
+      ctx.lineTo(tip.x - normal.x * head - normal.y * head, tip.y - normal.y * head + normal.x * head);
+      ctx.lineTo(tip.x - normal.x * head + normal.y * head, tip.y - normal.y * head - normal.x * head);
+      ctx.closePath();
+      ctx.fill();
+    });
+    ctx.restore();
+  };
+
+  /** Dashed bounding box plus a handle on every vertex of a selected shape */
+  const drawSelection = (
+    ctx: CanvasRenderingContext2D,
+    shape: Shape,
+    points: Point[],
+    ratio: number
+  ) => {
+    const { minX, minY, maxX, maxY } = getBounds(points);
+    const gap = 4 * ratio;
+    ctx.save();
+    ctx.setLineDash([4 * ratio, 3 * ratio]);
+    ctx.lineWidth = ratio;
+    ctx.strokeStyle = "white";
+    ctx.strokeRect(minX - gap, minY - gap, maxX - minX + gap * 2, maxY - minY + gap * 2);
+    ctx.restore();
+
+    ctx.lineWidth = 1.5 * ratio;
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = "white";
+    // Circles and ellipses get radius handles instead of one per approximating vertex
+    const handles = shape.ellipse
+      ? getRadiusHandles(shape.ellipse, ctx.canvas).map(({ point }) => toPixelPoint(point, ctx.canvas))
+      : points;
+    handles.forEach((p) => {
+      ctx.fillRect(p.x - 4 * ratio, p.y - 4 * ratio, 8 * ratio, 8 * ratio);
+      ctx.strokeRect(p.x - 4 * ratio, p.y - 4 * ratio, 8 * ratio, 8 * ratio);
+    });
+
+    // Rotation handle: a knob on a stalk above the top edge
+    if (isRotatable(shape)) {
+      const { anchor, handle } = getRotationHandle(shape, ratio);
+      ctx.beginPath();
+      ctx.moveTo(anchor.x, anchor.y);
+      ctx.lineTo(handle.x, handle.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(handle.x, handle.y, 5 * ratio, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    // Crosshair on the center; dragging anywhere inside moves the shape
+    if (shape.ellipse) {
+      const center = toPixelPoint(shape.ellipse.center, ctx.canvas);
+      ctx.beginPath();
+      ctx.moveTo(center.x - 5 * ratio, center.y);
+      ctx.lineTo(center.x + 5 * ratio, center.y);
+      ctx.moveTo(center.x, center.y - 5 * ratio);
+      ctx.lineTo(center.x, center.y + 5 * ratio);
+      ctx.stroke();
+    }
+
+    // Ghost handles at polygon and tripwire edge midpoints; drag one to add a vertex
+    if (hasEditableVertices(shape)) {
+      ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+      points.slice(1).forEach((p, i) => {
+        const mid = midpoint(points[i], p);
+        ctx.beginPath();
+        ctx.arc(mid.x, mid.y, 3.5 * ratio, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+    }
+  };
+
+  /** Grid lines every `getGridSize()` source pixels, under the shapes */
+  const drawGrid = (ctx: CanvasRenderingContext2D) => {
+    const { width, height } = ctx.canvas;
+    const size = getGridSize();
+    ctx.save();
+    ctx.lineWidth = getPixelRatio(ctx.canvas);
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.25)";
+    ctx.beginPath();
+    for (let x = size; x < width; x += size) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    }
+    for (let y = size; y < height; y += size) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  /** Alignment guides across the whole frame, like a design tool's smart guides */
+  const drawGuides = (ctx: CanvasRenderingContext2D) => {
+    const { width, height } = ctx.canvas;
+    const ratio = getPixelRatio(ctx.canvas);
+    ctx.save();
+    ctx.setLineDash([6 * ratio, 4 * ratio]);
+    ctx.lineWidth = ratio;
+    ctx.strokeStyle = "#ec4899";
+    ctx.beginPath();
+    guides.x.forEach((x) => {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    });
+    guides.y.forEach((y) => {
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    });
     ctx.stroke();
-    ctx.fillStyle = "rgba(0, 0, 255, 0.1)";
-    ctx.fill();
-    ctx.fillStyle = "red";
-    shape.points.forEach((p) => ctx.fillRect(p.x - 4, p.y - 4, 8, 8));
+    ctx.restore();
+  };
+
+  /** Draw the region name and category just above the shape's top-left corner */
+  const drawLabel = (
+    ctx: CanvasRenderingContext2D,
+    shape: Shape,
+    points: Point[],
+    ratio: number
+  ) => {
+    const text = `${shape.name} · ${REGION_CATEGORIES[shape.category].label}`;
+    const fontSize = 12 * ratio;
+    const padding = 4 * ratio;
+    const x = Math.min(...points.map((p) => p.x));
+    const top = Math.min(...points.map((p) => p.y));
+    const boxHeight = fontSize + padding * 2;
+    // Flip below the top edge when there is no room above the shape
+    const y = top - boxHeight - 4 * ratio >= 0 ? top - boxHeight - 4 * ratio : top + 4 * ratio;
+
+    ctx.font = `500 ${fontSize}px sans-serif`;
+    ctx.textBaseline = "top";
+    const boxWidth = ctx.measureText(text).width + padding * 2;
+    ctx.fillStyle = shape.color;
+    ctx.fillRect(x, y, boxWidth, boxHeight);
+    ctx.fillStyle = "white";
+    ctx.fillText(text, x + padding, y + padding);
   };
 
   /** 
@@ -399,110 +1649,463 @@ const DrawingCanvas = () => {
     // Clear the whole canvas before redrawing
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
+    if (snapSettings.showGrid) drawGrid(ctx);
+
     // Draw all finalized shapes stored in state
-    shapes.forEach((shape) => drawShape(ctx, shape));
-
-    // If currently drawing (but not polygon), draw a preview shape
-    if (isDrawing && startPoint && currentPoint && drawingMode !== "polygon") {
-      let tempPoints: Point[] = [];
-
-      // Case 1: Drawing a square
-      if (drawingMode === "square") {
-        const width = currentPoint.x - startPoint.x;
-        const height = currentPoint.y - startPoint.y;
-
-        // Square side is the larger of width/height (to enforce equal sides)
-        const side = Math.max(Math.abs(width), Math.abs(height));
-
-        // Calculate end coordinates while preserving drag direction
-        const endX = startPoint.x + (width > 0 ? side : -side);
-        const endY = startPoint.y + (height > 0 ? side : -side);
-
-        // Define square corners
-        tempPoints = [
-          startPoint,
-          { x: endX, y: startPoint.y },
-          { x: endX, y: endY },
-          { x: startPoint.x, y: endY },
-          startPoint, // close the shape
-        ];
-
-      // Case 2: Drawing a rectangle
-      } else {
-        tempPoints = [
-          startPoint,
-          { x: currentPoint.x, y: startPoint.y },
-          currentPoint,
-          { x: startPoint.x, y: currentPoint.y },
-          startPoint, // close the shape
-        ];
-      }
+    const invalidIds = new Set(issues.map((issue) => issue.shapeId));
+    shapes.forEach((shape) =>
+      drawShape(ctx, shape, { isSelected: selectedIds.has(shape.id), isInvalid: invalidIds.has(shape.id) })
+    );
 
+    // If currently drawing a rectangle, square, circle or ellipse, draw a preview shape
+    if (isDrawing && startPoint && currentPoint && !isPathMode) {
       // Draw the temporary preview shape
-      drawShape(ctx, { type: drawingMode, points: tempPoints });
+      drawShape(
+        ctx,
+        {
+          id: "preview",
+          ...getDraggedShape(startPoint, currentPoint),
+          ...getDefaultMetadata(shapes.length + 1),
+        },
+        { withLabel: false }
+      );
+    }
+
+    // Rubber-band selection box
+    if (marquee) {
+      const ratio = getPixelRatio(canvas);
+      const start = toPixelPoint(marquee.start, canvas);
+      const end = toPixelPoint(marquee.end, canvas);
+      ctx.save();
+      ctx.setLineDash([4 * ratio, 3 * ratio]);
+      ctx.lineWidth = ratio;
+      ctx.strokeStyle = "white";
+      ctx.fillStyle = "rgba(255, 255, 255, 0.1)";
+      ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      ctx.restore();
     }
 
-    // If drawing a polygon, show in-progress polygon with live preview line
-    if (drawingMode === "polygon" && activePolygon.length > 0) {
+    // If drawing a polygon or tripwire, show it in progress with a live preview line
+    if (isPathMode && activePath.length > 0) {
+      const ratio = getPixelRatio(canvas);
+      const points = activePath.map((p) => toPixelPoint(p, canvas));
+      ctx.lineWidth = 2 * ratio;
+      ctx.strokeStyle = "black";
       ctx.beginPath();
-      ctx.moveTo(activePolygon[0].x, activePolygon[0].y);
+      ctx.moveTo(points[0].x, points[0].y);
 
       // Draw lines between existing polygon points
-      for (let i = 1; i < activePolygon.length; i++) {
-        ctx.lineTo(activePolygon[i].x, activePolygon[i].y);
+      for (let i = 1; i < points.length; i++) {
+        ctx.lineTo(points[i].x, points[i].y);
       }
 
       // Add a temporary line from last point to current mouse position
-      if (currentPoint) ctx.lineTo(currentPoint.x, currentPoint.y);
+      if (currentPoint) {
+        const cursor = toPixelPoint(currentPoint, canvas);
+        ctx.lineTo(cursor.x, cursor.y);
+      }
 
       ctx.stroke();
 
       // Draw small red squares for each polygon vertex
       ctx.fillStyle = "red";
-      activePolygon.forEach((p) => ctx.fillRect(p.x - 4, p.y - 4, 8, 8));
+      points.forEach((p) => ctx.fillRect(p.x - 4 * ratio, p.y - 4 * ratio, 8 * ratio, 8 * ratio));
     }
-  }, [shapes, isDrawing, startPoint, currentPoint, drawingMode, activePolygon]);
-
 
-  /** Webcam setup */
+    drawGuides(ctx);
+  }, [
+    shapes,
+    isDrawing,
+    startPoint,
+    currentPoint,
+    drawingMode,
+    activePath,
+    frameSize,
+    selectedIds,
+    marquee,
+    snapSettings,
+    guides,
+    viewport.zoom,
+    issues,
+  ]);
+
+  /** Size the canvas to the intrinsic resolution of whatever the video plays */
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
 
-    if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-      navigator.mediaDevices
-        .getUserMedia({ video: true })
-        .then((stream) => {
-          video.srcObject = stream;
-          video.play();
-        })
-        .catch(() => setIsWebcamAvailable(false));
-    } else setIsWebcamAvailable(false);
+    const syncFrameSize = () => {
+      if (!video.videoWidth || !video.videoHeight) return;
+      setFrameSize({ width: video.videoWidth, height: video.videoHeight });
+    };
+
+    // "resize" fires when a live stream changes resolution mid-playback
+    video.addEventListener("loadedmetadata", syncFrameSize);
+    video.addEventListener("resize", syncFrameSize);
+    return () => {
+      video.removeEventListener("loadedmetadata", syncFrameSize);
+      video.removeEventListener("resize", syncFrameSize);
+    };
   }, []);
 
-  /** Fallback HLS */
+  /** Until the source reports its own size, follow the camera's configured resolution */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (imageUrl || video?.videoWidth) return;
+    setFrameSize({ width: camera.resolution.width, height: camera.resolution.height });
+  }, [camera.resolution.width, camera.resolution.height, imageUrl]);
+
+  /** Keep a small preview of the camera's picture for the camera list */
   useEffect(() => {
-    if (!isWebcamAvailable) {
-      const video = videoRef.current;
-      if (!video) return;
-      const hlsUrl = "https://test-streams.mux.dev/x36xhzz/x36xhzz.m3u8";
-
-      if (Hls.isSupported()) {
-        const hls = new Hls();
-        hls.loadSource(hlsUrl);
-        hls.attachMedia(video);
-        hls.on(Hls.Events.MANIFEST_PARSED, () => video.play());
-        return () => hls.destroy();
-      } else if (video.canPlayType("application/vnd.apple.mpegurl")) {
-        video.src = hlsUrl;
-        video.addEventListener("loadedmetadata", () => video.play());
+    if (!onThumbnail) return;
+    const media = imageUrl ? imageRef.current : videoRef.current;
+    if (!media) return;
+
+    const takeThumbnail = () => {
+      try {
+        onThumbnail(captureVideoFrame(media, THUMBNAIL_WIDTH).toDataURL("image/jpeg", 0.7));
+      } catch {
+        // Not playing yet, or a cross-origin source: keep the previous thumbnail
       }
+    };
+
+    const event = imageUrl ? "load" : "loadeddata";
+    media.addEventListener(event, takeThumbnail);
+    const interval = window.setInterval(takeThumbnail, THUMBNAIL_INTERVAL_MS);
+    return () => {
+      media.removeEventListener(event, takeThumbnail);
+      window.clearInterval(interval);
+    };
+  }, [imageUrl, onThumbnail]);
+
+  /** Tell the owner about every change, once the saved regions are known */
+  useEffect(() => {
+    if (savedJson === null) return;
+    onShapesChange?.(shapes, JSON.stringify(shapes) !== savedJson);
+  }, [shapes, savedJson, onShapesChange]);
+
+  /** Load the previously saved regions */
+  useEffect(() => {
+    let ignore = false;
+    fetch(`/api/regions?cameraId=${encodeURIComponent(camera.id)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+        return res.json() as Promise<{ regions: Region[] }>;
+      })
+      .then(({ regions }) => {
+        if (ignore) return;
+        const saved: Shape[] = regions.map(
+          (
+            { id, type, points, flipped, ellipse, rotation, holes, name, category, color, tags },
+            index
+          ) => ({
+            // Regions saved before metadata existed fall back to the defaults
+            ...getDefaultMetadata(index + 1, type),
+            ...(name && { name }),
+            ...(category && { category }),
+            ...(color && { color }),
+            ...(tags && { tags }),
+            ...(flipped && { flipped }),
+            ...(ellipse && { ellipse }),
+            ...(rotation !== undefined && { rotation }),
+            ...(holes && { holes }),
+            id,
+            type,
+            points,
+          })
+        );
+        // A restored draft stays on the canvas; the saved set is only the baseline
+        if (!draft) resetShapes(saved);
+        setSavedJson(JSON.stringify(saved));
+      })
+      .catch((err) => {
+        console.error("Failed to load regions:", err);
+        toast.error("Could not load the saved regions.");
+      });
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  /** Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      // Leave text fields (e.g. the region details form) to their native undo
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  /** Drop selected ids whose shapes went away (undo, redo, reload) */
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const ids = new Set(shapes.map((shape) => shape.id));
+      const next = [...prev].filter((id) => ids.has(id));
+      return next.length === prev.size ? prev : new Set(next);
+    });
+  }, [shapes]);
+
+  /**
+   * Single-key shortcuts. While a polygon or tripwire is being drawn, Enter
+   * finishes it, Esc drops it and Backspace takes back its last point. Esc
+   * also abandons a drag in progress, then leaves the drawing tool. Letters
+   * pick tools (see TOOLS). With a selection, arrow keys nudge it (Shift for
+   * bigger steps), Delete or Backspace removes it and Esc clears it.
+   */
+  const handleShortcutKey = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest("input, textarea, [contenteditable='true'], [role='dialog']")) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    if (activePath.length > 0 && ["Enter", "Escape", "Backspace"].includes(event.key)) {
+      event.preventDefault();
+      if (event.key === "Enter") finishPath();
+      else if (event.key === "Escape") cancelPath();
+      else removeLastPathPoint();
+      return;
+    }
+
+    if (event.key === "Escape" && isGestureActive) {
+      event.preventDefault();
+      cancelGesture();
+      return;
+    }
+
+    const tool = TOOLS.find(({ shortcut }) => shortcut.toLowerCase() === event.key.toLowerCase());
+    if (tool) {
+      event.preventDefault();
+      selectTool(tool.mode);
+      return;
+    }
+
+    if (event.key === "Escape" && drawingMode !== "none") {
+      event.preventDefault();
+      selectTool("none");
+      return;
+    }
+
+    if (selectedIds.size === 0) return;
+
+    const step = event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    switch (event.key) {
+      case "ArrowLeft":
+        nudgeSelected(-step, 0);
+        break;
+      case "ArrowRight":
+        nudgeSelected(step, 0);
+        break;
+      case "ArrowUp":
+        nudgeSelected(0, -step);
+        break;
+      case "ArrowDown":
+        nudgeSelected(0, step);
+        break;
+      case "Delete":
+      case "Backspace":
+        deleteSelected();
+        break;
+      case "Escape":
+        setSelectedIds(new Set());
+        break;
+      default:
+        return;
     }
-  }, [isWebcamAvailable]);
+    event.preventDefault();
+  };
+
+  // The listener is added once and always calls the handler of the latest render
+  const shortcutKeyRef = useRef(handleShortcutKey);
+  shortcutKeyRef.current = handleShortcutKey;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => shortcutKeyRef.current(event);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  /** Restore the video source last used in this workspace */
+  useEffect(() => {
+    setVideoSource(loadVideoSource(camera.id, videoSourceFromUrl(camera.sourceUrl)));
+  }, [camera.id, camera.sourceUrl]);
+
+  /** Restore the snapping aids and validation rules last used on this device */
+  useEffect(() => {
+    setSnapSettings(loadSnapSettings());
+    setValidationRules(loadValidationRules());
+  }, []);
+
+  /** Surface source failures (denied camera, dead stream, ...) */
+  useEffect(() => {
+    if (sourceError) toast.error(sourceError);
+  }, [sourceError]);
 
   const { startNextStep } = useNextStep();
   const router = useRouter();
 
+  const toggleSnapSetting = (key: keyof SnapSettings) =>
+    changeSnapSettings({ ...snapSettings, [key]: !snapSettings[key] });
+
+  // Boolean operations need at least two selected areas
+  const canCombine =
+    shapes.filter((shape) => selectedIds.has(shape.id) && isCombinable(shape)).length >= 2;
+
+  // Everything the command palette offers, with the shortcuts handled above
+  const paletteCommands: PaletteCommand[] = [
+    ...TOOLS.map(({ mode, label, icon, shortcut }) => ({
+      id: `tool-${mode}`,
+      label: `${label} tool`,
+      group: "Tools",
+      icon,
+      shortcut,
+      run: () => selectTool(mode),
+    })),
+    {
+      id: "finish-path",
+      label: drawingMode === "line" ? "Finish tripwire" : "Close polygon",
+      group: "Drawing",
+      icon: CornerDownLeft,
+      shortcut: "Enter",
+      disabled: activePath.length === 0,
+      run: finishPath,
+    },
+    {
+      id: "remove-last-point",
+      label: "Remove last point",
+      group: "Drawing",
+      icon: Delete,
+      shortcut: "Backspace",
+      disabled: activePath.length === 0,
+      run: removeLastPathPoint,
+    },
+    {
+      id: "cancel-path",
+      label: "Cancel drawing",
+      group: "Drawing",
+      icon: Ban,
+      shortcut: "Esc",
+      disabled: activePath.length === 0,
+      run: cancelPath,
+    },
+    { id: "whole-area", label: "Whole area", group: "Drawing", icon: Expand, run: selectWholeArea },
+    {
+      id: "undo",
+      label: "Undo",
+      group: "Edit",
+      icon: Undo2,
+      shortcut: "Ctrl+Z",
+      disabled: !canUndo,
+      run: undo,
+    },
+    {
+      id: "redo",
+      label: "Redo",
+      group: "Edit",
+      icon: Redo2,
+      shortcut: "Ctrl+Shift+Z",
+      disabled: !canRedo,
+      run: redo,
+    },
+    {
+      id: "delete-selected",
+      label: "Delete selected",
+      group: "Edit",
+      icon: X,
+      shortcut: "Delete",
+      disabled: selectedIds.size === 0,
+      run: deleteSelected,
+    },
+    {
+      id: "flip-direction",
+      label: "Flip tripwire direction",
+      group: "Edit",
+      icon: ArrowLeftRight,
+      disabled: !shapes.some((shape) => shape.type === "line" && selectedIds.has(shape.id)),
+      run: flipSelected,
+    },
+    ...(Object.keys(BOOLEAN_OPERATIONS) as BooleanOperation[]).map((operation) => ({
+      id: `combine-${operation}`,
+      label: `${BOOLEAN_OPERATIONS[operation].label} selected`,
+      group: "Edit",
+      icon: BOOLEAN_OPERATION_ICONS[operation],
+      disabled: !canCombine,
+      run: () => combineSelected(operation),
+    })),
+    {
+      id: "regions",
+      label: "Edit region details",
+      group: "Edit",
+      icon: Tags,
+      run: () => setIsDetailsOpen(true),
+    },
+    {
+      id: "show-grid",
+      label: "Toggle grid",
+      group: "View",
+      icon: Grid3x3,
+      run: () => toggleSnapSetting("showGrid"),
+    },
+    {
+      id: "snap-to-grid",
+      label: "Toggle snap to grid",
+      group: "View",
+      icon: SquareDashed,
+      run: () => toggleSnapSetting("snapToGrid"),
+    },
+    {
+      id: "snap-to-shapes",
+      label: "Toggle snap to shapes",
+      group: "View",
+      icon: Magnet,
+      run: () => toggleSnapSetting("snapToShapes"),
+    },
+    {
+      id: "show-guides",
+      label: "Toggle alignment guides",
+      group: "View",
+      icon: Ruler,
+      run: () => toggleSnapSetting("showGuides"),
+    },
+    { id: "zoom-in", label: "Zoom in", group: "View", icon: ZoomIn, run: () => zoomStep(1) },
+    { id: "zoom-out", label: "Zoom out", group: "View", icon: ZoomOut, run: () => zoomStep(-1) },
+    { id: "fit", label: "Fit to view", group: "View", icon: Scan, run: fit },
+    { id: "capture", label: "Capture frame", group: "File", icon: Camera, run: captureFrame },
+    ...(Object.keys(REGION_FORMATS) as RegionFormat[]).map((format) => ({
+      id: `export-${format}`,
+      label: `Export as ${REGION_FORMATS[format].label}`,
+      group: "File",
+      icon: Download,
+      run: () => handleExport(format),
+    })),
+    {
+      id: "import",
+      label: "Import regions",
+      group: "File",
+      icon: Upload,
+      run: () => importInputRef.current?.click(),
+    },
+    {
+      id: "submit",
+      label: "Submit",
+      group: "File",
+      icon: Send,
+      disabled: isSubmitting || issues.length > 0,
+      run: handleSubmit,
+    },
+  ];
+
   return (
     <div className="flex flex-col items-center gap-4 p-4">
       <div className="flex flex-wrap justify-center gap-2">
@@ -510,10 +2113,20 @@ const DrawingCanvas = () => {
         <Button variant="outline" onClick={() => startNextStep("mainTour")}>
            <Sparkles className="mr-2 h-4 w-4" /> Start the tour
         </Button>
+        <VideoSourcePicker value={videoSource ?? DEFAULT_VIDEO_SOURCE} onChange={changeVideoSource} />
+        <CommandPalette commands={paletteCommands} />
+        <Button
+          variant={drawingMode === "none" ? "secondary" : "outline"}
+          onClick={() => selectTool("none")}
+          title="Select (V)"
+        >
+          <MousePointer2 className="mr-2 h-4 w-4" /> Select
+        </Button>
         <Button
           id="step1"
           variant={drawingMode === "rectangle" ? "secondary" : "outline"}
-          onClick={() => setDrawingMode("rectangle")}
+          onClick={() => selectTool("rectangle")}
+          title="Rectangle (R)"
         >
           <RectangleHorizontal className="mr-2 h-4 w-4" /> Rectangle
         </Button>
@@ -526,43 +2139,336 @@ const DrawingCanvas = () => {
         <Button
           id="step2"
           variant={drawingMode === "polygon" ? "secondary" : "outline"}
-          onClick={() => setDrawingMode("polygon")}
+          onClick={() => selectTool("polygon")}
+          title="Polygon (P): click to place points, hold Shift for 0/45/90° edges, Enter to close"
         >
           <Triangle className="mr-2 h-4 w-4" /> Polygon
         </Button>
+        <Button
+          variant={drawingMode === "circle" ? "secondary" : "outline"}
+          onClick={() => selectTool("circle")}
+          title="Circle (C): drag out from the center"
+        >
+          <Circle className="mr-2 h-4 w-4" /> Circle
+        </Button>
+        <Button
+          variant={drawingMode === "ellipse" ? "secondary" : "outline"}
+          onClick={() => selectTool("ellipse")}
+          title="Ellipse (E): drag out from the center"
+        >
+          <Egg className="mr-2 h-4 w-4" /> Ellipse
+        </Button>
+        <Button
+          variant={drawingMode === "line" ? "secondary" : "outline"}
+          onClick={() => selectTool("line")}
+          title="Tripwire (L): click to place points, click the last point again or press Enter to finish"
+        >
+          <Spline className="mr-2 h-4 w-4" /> Line
+        </Button>
         <Button id="step3" variant="outline" onClick={selectWholeArea}>
           <Expand className="mr-2 h-4 w-4" /> Whole Area
         </Button>
-        <Button variant="destructive" onClick={() => setShapes([])}>
-          <Trash2 className="mr-2 h-4 w-4" /> Clear
+        <Button variant="outline" onClick={() => setIsDetailsOpen(true)}>
+          <Tags className="mr-2 h-4 w-4" /> Regions
+        </Button>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={(Object.keys(snapSettings) as (keyof SnapSettings)[]).filter((key) => snapSettings[key])}
+          onValueChange={(values) =>
+            changeSnapSettings({
+              showGrid: values.includes("showGrid"),
+              snapToGrid: values.includes("snapToGrid"),
+              snapToShapes: values.includes("snapToShapes"),
+              showGuides: values.includes("showGuides"),
+            })
+          }
+        >
+          <ToggleGroupItem value="showGrid" aria-label="Show grid" title="Show grid">
+            <Grid3x3 className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="snapToGrid" aria-label="Snap to grid" title="Snap to grid">
+            <SquareDashed className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            value="snapToShapes"
+            aria-label="Snap to shapes"
+            title="Snap to other shapes' vertices and edges"
+          >
+            <Magnet className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            value="showGuides"
+            aria-label="Alignment guides"
+            title="Alignment guides"
+          >
+            <Ruler className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <Button variant="outline" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="mr-2 h-4 w-4" /> Undo
+        </Button>
+        <Button variant="outline" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="mr-2 h-4 w-4" /> Redo
+        </Button>
+        <Button
+          variant="outline"
+          onClick={flipSelected}
+          disabled={!shapes.some((shape) => shape.type === "line" && selectedIds.has(shape.id))}
+          title="Reverse the counted crossing direction of the selected tripwires"
+        >
+          <ArrowLeftRight className="mr-2 h-4 w-4" /> Flip direction
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              disabled={!canCombine}
+              title="Union, subtract, intersect or exclude the selected areas"
+            >
+              <Combine className="mr-2 h-4 w-4" /> Combine
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {(Object.keys(BOOLEAN_OPERATIONS) as BooleanOperation[]).map((operation) => {
+              const Icon = BOOLEAN_OPERATION_ICONS[operation];
+              return (
+                <DropdownMenuItem
+                  key={operation}
+                  onSelect={() => combineSelected(operation)}
+                  title={BOOLEAN_OPERATIONS[operation].description}
+                >
+                  <Icon className="mr-2 h-4 w-4" /> {BOOLEAN_OPERATIONS[operation].label}
+                </DropdownMenuItem>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="outline"
+          onClick={deleteSelected}
+          disabled={selectedIds.size === 0}
+          title="Delete selected (Delete)"
+        >
+          <X className="mr-2 h-4 w-4" /> Delete selected
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={shapes.length === 0}>
+              <Trash2 className="mr-2 h-4 w-4" /> Clear
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Clear the canvas?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This removes all {shapes.length} region(s) from the canvas. You can still undo it
+                with Ctrl+Z.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  setShapes([]);
+                  setSelectedIds(new Set());
+                }}
+              >
+                Clear
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <Button variant="outline" onClick={captureFrame}>
+          <Camera className="mr-2 h-4 w-4" /> Capture frame
         </Button>
-        <Button onClick={handleSubmit}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              <Download className="mr-2 h-4 w-4" /> Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {(Object.keys(REGION_FORMATS) as RegionFormat[]).map((format) => (
+              <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                {REGION_FORMATS[format].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" /> Import
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".geojson,.json,.xml"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting || issues.length > 0}
+          title={issues.length > 0 ? "Fix the regions listed below the canvas first" : undefined}
+        >
           <Send className="mr-2 h-4 w-4" /> Submit
         </Button>
       </div>
 
-      <div className="relative w-full max-w-[1065px]">
-        <video
-          ref={videoRef}
-          width="1065"
-          height="599"
-          className="rounded-md w-full h-auto"
-          autoPlay
-          playsInline
-          muted
-        />
-        <canvas
-          ref={canvasRef}
-          width="1065"
-          height="599"
-          className="absolute top-0 left-0 w-full h-full bg-transparent border border-gray-400 rounded-md max-w-full"
-          onClick={handleCanvasClick}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-        />
+      <div
+        ref={viewportRef}
+        className="relative w-full max-w-[1065px] overflow-hidden rounded-md"
+        style={{ aspectRatio: `${frameSize.width} / ${frameSize.height}` }}
+      >
+        {/* Video and overlay zoom and pan as one layer, so they never drift apart */}
+        <div
+          className="absolute inset-0 origin-top-left"
+          style={{
+            transform: `translate(${viewport.x * 100}%, ${viewport.y * 100}%) scale(${viewport.zoom})`,
+          }}
+        >
+          <video
+            ref={videoRef}
+            crossOrigin="anonymous"
+            className={cn("rounded-md w-full h-full object-contain", imageUrl && "hidden")}
+            autoPlay
+            playsInline
+            muted
+          />
+          {imageUrl && (
+            // A local object URL: nothing for the image optimizer to fetch
+            <Image
+              ref={imageRef}
+              src={imageUrl}
+              alt="Selected still image"
+              fill
+              unoptimized
+              className="rounded-md object-contain"
+              onLoad={(e) =>
+                setFrameSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+            />
+          )}
+          <canvas
+            ref={canvasRef}
+            width={frameSize.width}
+            height={frameSize.height}
+            className={cn(
+              "absolute top-0 left-0 w-full h-full touch-none bg-transparent border border-gray-400 rounded-md max-w-full",
+              isPanning ? "cursor-grabbing" : isSpaceHeld && "cursor-grab"
+            )}
+            onClick={handleCanvasClick}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+            onPointerLeave={handlePointerLeave}
+            onDoubleClick={handleDoubleClick}
+            onContextMenu={handleContextMenu}
+          />
+        </div>
+        <div className="absolute bottom-2 right-2 flex items-center gap-1 rounded-md border bg-background/80 p-1 backdrop-blur">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => zoomStep(-1)}
+            disabled={viewport.zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+            title="Zoom out (mouse wheel)"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center text-xs tabular-nums">{Math.round(viewport.zoom * 100)}%</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => zoomStep(1)}
+            disabled={viewport.zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+            title="Zoom in (mouse wheel)"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={fit}
+            disabled={viewport.zoom === MIN_ZOOM}
+            aria-label="Fit to view"
+            title="Fit to view (pan with Space-drag or the middle mouse button)"
+          >
+            <Scan className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
+
+      <ValidationPanel
+        shapes={shapes}
+        issues={issues}
+        rules={validationRules}
+        onRulesChange={changeValidationRules}
+        onSelectShape={(id) => setSelectedIds(new Set([id]))}
+      />
+
+      {capture && (
+        <div className="flex w-full max-w-[1065px] items-center gap-3 rounded-md border p-2">
+          <Image
+            src={capture.previewUrl}
+            alt="Captured video frame"
+            width={frameSize.width}
+            height={frameSize.height}
+            unoptimized
+            className="h-16 w-auto rounded-sm border object-contain"
+          />
+          <div className="text-sm">
+            <p className="font-medium">Captured frame</p>
+            <p className="text-muted-foreground">
+              {new Date(capture.capturedAt).toLocaleTimeString()} · attached to the next submit
+            </p>
+          </div>
+          <div className="ml-auto flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="mr-2 h-4 w-4" /> Download
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => downloadCapture(true, "png")}>
+                  With regions (PNG)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => downloadCapture(true, "jpeg")}>
+                  With regions (JPEG)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => downloadCapture(false, "png")}>
+                  Raw frame (PNG)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => downloadCapture(false, "jpeg")}>
+                  Raw frame (JPEG)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="ghost" size="sm" onClick={discardCapture}>
+              <X className="mr-2 h-4 w-4" /> Discard
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <RegionDetailsSheet
+        open={isDetailsOpen}
+        onOpenChange={setIsDetailsOpen}
+        shapes={shapes}
+        editingId={editingId}
+        onEditingIdChange={setEditingId}
+        onSave={updateMetadata}
+      />
     </div>
   );
 };
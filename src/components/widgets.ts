@@ -0,0 +1,19 @@
+import { registerWidget } from "@/lib/widget-registry";
+import { barChartWidget } from "./BarChart/widget";
+import { pieChartWidget } from "./PieChart/widget";
+
+/**
+ * The widget types built into the dashboard, in the order the sidebar offers
+ * them. Import the registry from here so they are registered before use.
+ */
+registerWidget(barChartWidget);
+registerWidget(pieChartWidget);
+
+export {
+  FALLBACK_WIDGET_SIZE,
+  getWidget,
+  listWidgets,
+  readWidgetConfig,
+  registerWidget,
+  type WidgetDefinition,
+} from "@/lib/widget-registry";
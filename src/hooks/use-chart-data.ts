@@ -0,0 +1,58 @@
+import * as React from "react"
+import { getRefreshSeconds, loadRows, type DataRow, type DataSource } from "@/lib/chart-data"
+
+type ChartDataState = {
+  rows: DataRow[]
+  // Why the last load failed; the rows of the last good load stay shown
+  error: string | null
+  isLoading: boolean
+}
+
+/**
+ * Rows of a chart widget's data source. Endpoints with a refresh interval
+ * are polled, skipping the polls that come due while the tab is hidden.
+ */
+export function useChartData(source: DataSource): ChartDataState {
+  const [state, setState] = React.useState<ChartDataState>({ rows: [], error: null, isLoading: true })
+  // Sources are plain objects rebuilt on every render; reload only when the content
+  // changes, reading the source back from its serialized form inside the effect
+  const key = JSON.stringify(source)
+
+  React.useEffect(() => {
+    const source = JSON.parse(key) as DataSource
+    const controller = new AbortController()
+    const refreshSeconds = getRefreshSeconds(source)
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let isFirstLoad = true
+
+    const load = async () => {
+      if (isFirstLoad || document.visibilityState !== "hidden") {
+        isFirstLoad = false
+        try {
+          const rows = await loadRows(source, controller.signal)
+          if (!controller.signal.aborted) setState({ rows, error: null, isLoading: false })
+        } catch (err) {
+          if (controller.signal.aborted) return
+          console.error("Failed to load chart data:", err)
+          setState((prev) => ({
+            ...prev,
+            error: err instanceof Error ? err.message : "Could not load the data",
+            isLoading: false,
+          }))
+        }
+      }
+      if (refreshSeconds > 0 && !controller.signal.aborted) {
+        timer = setTimeout(load, refreshSeconds * 1000)
+      }
+    }
+
+    setState((prev) => ({ ...prev, isLoading: true }))
+    load()
+    return () => {
+      controller.abort()
+      clearTimeout(timer)
+    }
+  }, [key])
+
+  return state
+}
@@ -0,0 +1,121 @@
+import * as React from "react"
+
+const HISTORY_LIMIT = 100
+
+type Updater<T> = T | ((prev: T) => T)
+
+type HistoryState<T> = {
+  past: T[]
+  present: T
+  future: T[]
+  // Snapshot taken when a transient change (drag, resize) started
+  checkpoint: T | null
+}
+
+type HistoryAction<T> =
+  | { type: "set"; updater: Updater<T> }
+  | { type: "preview"; updater: Updater<T> }
+  | { type: "commit" }
+  | { type: "cancel" }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset"; value: T }
+
+const apply = <T,>(updater: Updater<T>, prev: T): T =>
+  typeof updater === "function" ? (updater as (prev: T) => T)(prev) : updater
+
+const pushPast = <T,>(past: T[], value: T) => [...past, value].slice(-HISTORY_LIMIT)
+
+function historyReducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case "set": {
+      const next = apply(action.updater, state.present)
+      if (next === state.present) return state
+      return {
+        past: pushPast(state.past, state.checkpoint ?? state.present),
+        present: next,
+        future: [],
+        checkpoint: null,
+      }
+    }
+    case "preview":
+      return {
+        ...state,
+        present: apply(action.updater, state.present),
+        checkpoint: state.checkpoint ?? state.present,
+      }
+    case "commit": {
+      if (state.checkpoint === null) return state
+      if (state.checkpoint === state.present) return { ...state, checkpoint: null }
+      return {
+        past: pushPast(state.past, state.checkpoint),
+        present: state.present,
+        future: [],
+        checkpoint: null,
+      }
+    }
+    case "cancel":
+      if (state.checkpoint === null) return state
+      return { ...state, present: state.checkpoint, checkpoint: null }
+    case "undo": {
+      // Settle a gesture that is still in progress before stepping back
+      const settled = historyReducer(state, { type: "commit" })
+      if (settled.past.length === 0) return settled
+      return {
+        past: settled.past.slice(0, -1),
+        present: settled.past[settled.past.length - 1],
+        future: [settled.present, ...settled.future],
+        checkpoint: null,
+      }
+    }
+    case "redo": {
+      if (state.future.length === 0 || state.checkpoint !== null) return state
+      return {
+        past: pushPast(state.past, state.present),
+        present: state.future[0],
+        future: state.future.slice(1),
+        checkpoint: null,
+      }
+    }
+    case "reset":
+      return { past: [], present: action.value, future: [], checkpoint: null }
+  }
+}
+
+/**
+ * State with an undo/redo stack.
+ *
+ * `set` records one undo step per call. `preview` changes the value without
+ * recording anything, so a drag can update on every mouse-move frame; the
+ * following `commit` then records the whole gesture as a single step, or
+ * `cancel` puts the value back as it was before the gesture. `committed` is
+ * the value without the preview of a gesture in progress.
+ */
+export function useHistory<T>(initial: T) {
+  const [state, dispatch] = React.useReducer(
+    historyReducer as React.Reducer<HistoryState<T>, HistoryAction<T>>,
+    { past: [], present: initial, future: [], checkpoint: null }
+  )
+
+  const set = React.useCallback((updater: Updater<T>) => dispatch({ type: "set", updater }), [])
+  const preview = React.useCallback((updater: Updater<T>) => dispatch({ type: "preview", updater }), [])
+  const commit = React.useCallback(() => dispatch({ type: "commit" }), [])
+  const cancel = React.useCallback(() => dispatch({ type: "cancel" }), [])
+  const undo = React.useCallback(() => dispatch({ type: "undo" }), [])
+  const redo = React.useCallback(() => dispatch({ type: "redo" }), [])
+  const reset = React.useCallback((value: T) => dispatch({ type: "reset", value }), [])
+
+  return {
+    value: state.present,
+    committed: state.checkpoint ?? state.present,
+    set,
+    preview,
+    commit,
+    cancel,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  }
+}
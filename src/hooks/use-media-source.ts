@@ -0,0 +1,132 @@
+import * as React from "react"
+import Hls from "hls.js"
+import { FALLBACK_HLS_URL, isHlsUrl, type VideoSource } from "@/lib/video-source"
+
+/** Play an HLS stream, natively or through hls.js; returns a cleanup function */
+function attachHls(video: HTMLVideoElement, url: string, onError: (message: string) => void) {
+  if (Hls.isSupported()) {
+    const hls = new Hls()
+    hls.loadSource(url)
+    hls.attachMedia(video)
+    hls.on(Hls.Events.MANIFEST_PARSED, () => video.play().catch(() => undefined))
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) onError(`Could not play the stream (${data.details}).`)
+    })
+    return () => hls.destroy()
+  }
+  if (video.canPlayType("application/vnd.apple.mpegurl")) {
+    video.src = url
+    video.play().catch(() => undefined)
+    return () => undefined
+  }
+  onError("HLS streams are not supported in this browser.")
+  return () => undefined
+}
+
+/** Detach whatever the video element was playing */
+function resetVideo(video: HTMLVideoElement) {
+  video.pause()
+  video.srcObject = null
+  video.removeAttribute("src")
+  video.load()
+}
+
+/**
+ * Attach a VideoSource to a video element, tearing down the previous one
+ * (camera tracks, hls.js instance, object URL) whenever the source changes.
+ *
+ * Image files are not played through the video element; their object URL is
+ * returned as `imageUrl` for the caller to render instead.
+ */
+export function useMediaSource(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  source: VideoSource | null
+) {
+  const [error, setError] = React.useState<string | null>(null)
+  const [imageUrl, setImageUrl] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const video = videoRef.current
+    if (!video || !source) return
+
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let detach = () => {}
+    const fail = (message: string) => {
+      if (!cancelled) setError(message)
+    }
+
+    setError(null)
+    setImageUrl(null)
+    resetVideo(video)
+
+    const playStream = (constraints: MediaStreamConstraints) =>
+      navigator.mediaDevices.getUserMedia(constraints).then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = media
+        video.srcObject = media
+        video.play().catch(() => undefined)
+      })
+
+    switch (source.kind) {
+      case "auto": {
+        // Webcam first, the public test stream when there is none
+        const fallback = () => {
+          if (!cancelled) detach = attachHls(video, FALLBACK_HLS_URL, fail)
+        }
+        if (!navigator.mediaDevices?.getUserMedia) fallback()
+        else playStream({ video: true }).catch(fallback)
+        break
+      }
+      case "camera": {
+        if (!navigator.mediaDevices?.getUserMedia) {
+          fail("Camera access is not available in this browser.")
+          break
+        }
+        playStream({ video: { deviceId: { exact: source.deviceId } } }).catch((err) =>
+          fail(`Could not open ${source.label || "the camera"}: ${err.message ?? err}`)
+        )
+        break
+      }
+      case "url": {
+        if (isHlsUrl(source.url)) {
+          detach = attachHls(video, source.url, fail)
+        } else {
+          video.src = source.url
+          video.play().catch(() => undefined)
+        }
+        break
+      }
+      case "file": {
+        if (!source.file) {
+          fail(`Pick "${source.name}" again to load it.`)
+          break
+        }
+        const url = URL.createObjectURL(source.file)
+        if (source.mediaType === "image") {
+          setImageUrl(url)
+        } else {
+          video.src = url
+          video.play().catch(() => undefined)
+        }
+        detach = () => URL.revokeObjectURL(url)
+        break
+      }
+    }
+
+    const handleVideoError = () => fail("The video could not be loaded.")
+    video.addEventListener("error", handleVideoError)
+
+    return () => {
+      cancelled = true
+      video.removeEventListener("error", handleVideoError)
+      stream?.getTracks().forEach((track) => track.stop())
+      detach()
+    }
+  }, [videoRef, source])
+
+  return { error, imageUrl }
+}
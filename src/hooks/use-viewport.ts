@@ -0,0 +1,184 @@
+import * as React from "react"
+
+/**
+ * Zoom and pan of the content inside a clipping container. `x` and `y` are
+ * the content's offset as a fraction of the container size, so the view
+ * survives the container being resized.
+ */
+export type Viewport = { zoom: number; x: number; y: number }
+
+/** Two fingers on the screen: their midpoint in client pixels and how far apart they are */
+export type Pinch = { x: number; y: number; distance: number }
+
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 8
+
+// How much one notch of the zoom buttons zooms in or out
+const ZOOM_STEP = 1.25
+// Zoom factor per pixel of wheel scrolling
+const WHEEL_ZOOM_SPEED = 0.002
+// Wheel deltas reported in lines (Firefox) are converted to pixels at this rate
+const WHEEL_LINE_HEIGHT = 16
+
+const FIT: Viewport = { zoom: 1, x: 0, y: 0 }
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/** Keep the zoom in range and the content covering the whole container */
+const clampViewport = ({ zoom, x, y }: Viewport): Viewport => {
+  const z = clamp(zoom, MIN_ZOOM, MAX_ZOOM)
+  return { zoom: z, x: clamp(x, 1 - z, 0), y: clamp(y, 1 - z, 0) }
+}
+
+/**
+ * Whether a key event belongs to a text field, a control or a dialog rather
+ * than the canvas. Space types into fields and presses focused buttons, so
+ * it must be left alone there.
+ */
+const isInteractiveTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null
+  return (
+    !!element?.isContentEditable ||
+    !!element?.closest?.(
+      "input, textarea, select, button, a[href], summary, [role='button'], [role='checkbox'], [role='switch'], [role='menuitem'], [role='tab'], [role='dialog']"
+    )
+  )
+}
+
+/**
+ * Wheel and pinch zoom, and drag or two-finger panning, for the element inside
+ * `containerRef`. The caller applies `viewport` as a CSS transform to a layer
+ * filling the container, so everything in that layer stays in sync.
+ *
+ * Holding Space arms panning: `isSpaceHeld` tells the caller to start a pan
+ * (via `startPan`) on the next press instead of its usual action.
+ */
+export function useViewport(containerRef: React.RefObject<HTMLElement | null>) {
+  const [viewport, setViewport] = React.useState<Viewport>(FIT)
+  const [isPanning, setIsPanning] = React.useState(false)
+  const [isSpaceHeld, setIsSpaceHeld] = React.useState(false)
+  // Removes the window listeners of the pan in progress, if any
+  const stopPanRef = React.useRef<(() => void) | null>(null)
+
+  /** Zoom by a factor, keeping the content under the given client position still */
+  const zoomAt = React.useCallback(
+    (clientX: number, clientY: number, factor: number) => {
+      const rect = containerRef.current?.getBoundingClientRect()
+      if (!rect) return
+      const cx = (clientX - rect.left) / rect.width
+      const cy = (clientY - rect.top) / rect.height
+      setViewport((prev) => {
+        const zoom = clamp(prev.zoom * factor, MIN_ZOOM, MAX_ZOOM)
+        const scale = zoom / prev.zoom
+        return clampViewport({ zoom, x: cx - (cx - prev.x) * scale, y: cy - (cy - prev.y) * scale })
+      })
+    },
+    [containerRef]
+  )
+
+  /** Zoom in (1) or out (-1) one step around the middle of the container */
+  const zoomStep = React.useCallback(
+    (direction: 1 | -1) => {
+      const rect = containerRef.current?.getBoundingClientRect()
+      if (!rect) return
+      zoomAt(rect.left + rect.width / 2, rect.top + rect.height / 2, ZOOM_STEP ** direction)
+    },
+    [containerRef, zoomAt]
+  )
+
+  /** Show the whole frame again */
+  const fit = React.useCallback(() => setViewport(FIT), [])
+
+  /** Move the view by a distance in client pixels */
+  const panBy = React.useCallback(
+    (dx: number, dy: number) => {
+      const rect = containerRef.current?.getBoundingClientRect()
+      if (!rect) return
+      setViewport((prev) =>
+        clampViewport({ ...prev, x: prev.x + dx / rect.width, y: prev.y + dy / rect.height })
+      )
+    },
+    [containerRef]
+  )
+
+  /** Pan with one pointer until it is released, wherever it goes */
+  const startPan = React.useCallback(
+    (pointerId: number, clientX: number, clientY: number) => {
+      stopPanRef.current?.()
+      let last = { x: clientX, y: clientY }
+      setIsPanning(true)
+
+      const handleMove = (event: PointerEvent) => {
+        if (event.pointerId !== pointerId) return
+        panBy(event.clientX - last.x, event.clientY - last.y)
+        last = { x: event.clientX, y: event.clientY }
+      }
+      const handleUp = (event: PointerEvent) => {
+        if (event.pointerId !== pointerId) return
+        setIsPanning(false)
+        stopPan()
+      }
+      const stopPan = () => {
+        window.removeEventListener("pointermove", handleMove)
+        window.removeEventListener("pointerup", handleUp)
+        window.removeEventListener("pointercancel", handleUp)
+        if (stopPanRef.current === stopPan) stopPanRef.current = null
+      }
+      window.addEventListener("pointermove", handleMove)
+      window.addEventListener("pointerup", handleUp)
+      window.addEventListener("pointercancel", handleUp)
+      stopPanRef.current = stopPan
+    },
+    [panBy]
+  )
+
+  // A pan still in progress when the canvas unmounts must not outlive it
+  React.useEffect(() => () => stopPanRef.current?.(), [])
+
+  /** Follow two fingers: pan with their midpoint and zoom by how far they spread */
+  const pinchBy = React.useCallback(
+    (from: Pinch, to: Pinch) => {
+      panBy(to.x - from.x, to.y - from.y)
+      if (from.distance > 0) zoomAt(to.x, to.y, to.distance / from.distance)
+    },
+    [panBy, zoomAt]
+  )
+
+  // Wheel zooms around the cursor; registered by hand so the page scroll can be prevented
+  React.useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const delta =
+        event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY
+      zoomAt(event.clientX, event.clientY, Math.exp(-delta * WHEEL_ZOOM_SPEED))
+    }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [containerRef, zoomAt])
+
+  // Space arms panning while held (and must not scroll the page meanwhile)
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isInteractiveTarget(event.target)) return
+      event.preventDefault()
+      setIsSpaceHeld(true)
+    }
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === "Space") setIsSpaceHeld(false)
+    }
+    // Releasing Space in another window would otherwise leave panning armed
+    const handleBlur = () => setIsSpaceHeld(false)
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  }, [])
+
+  return { viewport, isPanning, isSpaceHeld, zoomAt, zoomStep, fit, startPan, pinchBy }
+}
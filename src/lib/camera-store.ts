@@ -0,0 +1,45 @@
+import { v4 as uuidv4 } from "uuid";
+import { createDefaultCamera, type Camera, type CameraInput } from "@/lib/cameras";
+import { createJsonStore } from "@/lib/json-store";
+
+/**
+ * File-backed store for cameras, in `data/cameras.json`.
+ * An empty store starts out with the default camera.
+ */
+const store = createJsonStore<Camera>("cameras.json", () => [createDefaultCamera()]);
+
+export function listCameras(): Promise<Camera[]> {
+  return store.list();
+}
+
+export async function getCamera(id: string): Promise<Camera | null> {
+  const cameras = await listCameras();
+  return cameras.find((camera) => camera.id === id) ?? null;
+}
+
+export function createCamera(input: CameraInput): Promise<Camera> {
+  return store.mutate((cameras) => {
+    const now = new Date().toISOString();
+    const camera: Camera = { ...input, id: uuidv4(), createdAt: now, updatedAt: now };
+    return { items: [...cameras, camera], result: camera };
+  });
+}
+
+/** Update a camera's settings; resolves to null when the id is unknown */
+export function updateCamera(id: string, input: CameraInput): Promise<Camera | null> {
+  return store.mutate((cameras) => {
+    const index = cameras.findIndex((camera) => camera.id === id);
+    if (index < 0) return { items: cameras, result: null };
+    const next = [...cameras];
+    next[index] = { ...cameras[index], ...input, updatedAt: new Date().toISOString() };
+    return { items: next, result: next[index] };
+  });
+}
+
+/** Delete a camera; resolves to false when the id is unknown */
+export function deleteCamera(id: string): Promise<boolean> {
+  return store.mutate((cameras) => {
+    const next = cameras.filter((camera) => camera.id !== id);
+    return { items: next, result: next.length !== cameras.length };
+  });
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { DEFAULT_FRAME_SIZE, type FrameSize } from "@/lib/regions";
+
+/** A camera of the scene; every camera owns its own set of regions */
+export type Camera = {
+  id: string;
+  name: string;
+  // HLS (.m3u8) or MP4 URL; empty means the local webcam
+  sourceUrl: string;
+  // Expected stream resolution, used until the video reports its own
+  resolution: FrameSize;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** The camera that regions saved before cameras existed belong to */
+export const DEFAULT_CAMERA_ID = "default";
+
+export const createDefaultCamera = (): Camera => {
+  const now = new Date().toISOString();
+  return {
+    id: DEFAULT_CAMERA_ID,
+    name: "Camera 1",
+    sourceUrl: "",
+    resolution: DEFAULT_FRAME_SIZE,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const cameraInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+  sourceUrl: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || /^https?:\/\/\S+$/i.test(value), "Use a full http(s) URL"),
+  resolution: z.object({
+    width: z.number().int().min(16).max(7680),
+    height: z.number().int().min(16).max(4320),
+  }),
+});
+
+export type CameraInput = z.infer<typeof cameraInputSchema>;
+
+// Thumbnails are only cached in the browser, keyed by camera
+const thumbnailKey = (cameraId: string) => `drawing-canvas:thumbnail:${cameraId}`;
+
+export const loadThumbnail = (cameraId: string): string | null => {
+  try {
+    return window.localStorage.getItem(thumbnailKey(cameraId));
+  } catch {
+    return null;
+  }
+};
+
+export const saveThumbnail = (cameraId: string, dataUrl: string | null) => {
+  try {
+    if (dataUrl) window.localStorage.setItem(thumbnailKey(cameraId), dataUrl);
+    else window.localStorage.removeItem(thumbnailKey(cameraId));
+  } catch {
+    // Storage full or unavailable; the thumbnail is only a convenience
+  }
+};
@@ -0,0 +1,284 @@
+import { z } from "zod";
+
+/**
+ * Where chart widgets get their rows from, and how the rows' fields map onto
+ * the chart. Both are stored in the widget's config on the dashboard, see
+ * `chart-settings.ts`.
+ */
+
+/** One record of a data source, e.g. a CSV line or an element of a JSON array */
+export type DataRow = Record<string, string | number | boolean | null>;
+
+export type DataSourceKind = "static" | "csv" | "rest" | "route";
+
+export type DataSource =
+  // Rows typed in as a JSON array
+  | { kind: "static"; json: string }
+  // An uploaded CSV file, kept with the widget; the first line holds the field names
+  | { kind: "csv"; fileName: string; text: string }
+  // Any JSON endpoint, fetched by the browser, so it must allow CORS
+  | { kind: "rest"; url: string; rowsPath: string; refreshSeconds: number }
+  // A Route Handler of this app answering { rows }, see LOCAL_DATA_ROUTES
+  | { kind: "route"; path: string; refreshSeconds: number };
+
+/** A field plotted as a series (bars, or the slices of a pie) */
+export type SeriesMapping = {
+  field: string;
+  label: string;
+  color: string; // #rrggbb
+};
+
+export type FieldMapping = {
+  // Field holding the x-axis value of a bar chart, or the slice name of a pie
+  categoryField: string;
+  series: SeriesMapping[];
+};
+
+export const DATA_SOURCE_KINDS: Record<DataSourceKind, { label: string; description: string }> = {
+  static: { label: "Static JSON", description: "An array of objects, typed in here." },
+  csv: { label: "CSV upload", description: "A CSV file whose first line holds the field names." },
+  rest: { label: "REST endpoint", description: "A JSON URL, polled on an interval. It must allow CORS." },
+  route: { label: "Local route", description: "Live metrics served by this app." },
+};
+
+/** Metrics served under /api/metrics, offered as local routes */
+export const LOCAL_DATA_ROUTES = [
+  { path: "/api/metrics/regions-by-category", label: "Regions by category" },
+  { path: "/api/metrics/regions-by-camera", label: "Regions per camera and category" },
+  { path: "/api/metrics/cameras", label: "Cameras" },
+];
+
+/** Colors given to new series, in order */
+export const SERIES_COLORS = ["#2563eb", "#60a5fa", "#22c55e", "#f59e0b", "#ef4444", "#a855f7"];
+
+// Uploaded files are stored with the dashboard, so keep them small
+export const MAX_CSV_LENGTH = 200_000;
+
+// Polling any faster than this would mostly hammer the endpoint
+export const MIN_REFRESH_SECONDS = 5;
+
+const refreshSecondsSchema = z
+  .number()
+  .int()
+  .max(86_400)
+  .refine((seconds) => seconds === 0 || seconds >= MIN_REFRESH_SECONDS, {
+    message: `Use 0 to load once, or at least ${MIN_REFRESH_SECONDS} seconds`,
+  });
+
+const rowsPathSchema = z
+  .string()
+  .trim()
+  .max(200)
+  .regex(/^([\w$-]+(\.[\w$-]+)*)?$/, "Use dot-separated keys, e.g. data.items");
+
+export const dataSourceSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("static"), json: z.string().max(MAX_CSV_LENGTH) }),
+  z.object({
+    kind: z.literal("csv"),
+    fileName: z.string().max(255),
+    text: z.string().max(MAX_CSV_LENGTH, "The file is too large"),
+  }),
+  z.object({
+    kind: z.literal("rest"),
+    url: z.string().trim().url().regex(/^https?:\/\//i, "Use an http or https URL"),
+    rowsPath: rowsPathSchema,
+    refreshSeconds: refreshSecondsSchema,
+  }),
+  z.object({
+    kind: z.literal("route"),
+    path: z.string().regex(/^\/api\/[\w/.-]+(\?[^#]*)?$/, "Use a path under /api/"),
+    refreshSeconds: refreshSecondsSchema,
+  }),
+]);
+
+export const seriesMappingSchema = z.object({
+  field: z.string().min(1),
+  label: z.string().trim().min(1, "Label is required").max(64),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a #rrggbb color"),
+});
+
+export const fieldMappingSchema = z.object({
+  categoryField: z.string().min(1, "Pick the category field"),
+  series: z.array(seriesMappingSchema).min(1, "Pick at least one value field").max(12),
+});
+
+/** Seconds between reloads of a source; 0 when it is only loaded once */
+export const getRefreshSeconds = (source: DataSource): number =>
+  source.kind === "rest" || source.kind === "route" ? source.refreshSeconds : 0;
+
+/** A CSV cell as a number when it reads as one, else as text */
+const toCellValue = (cell: string): string | number => {
+  const trimmed = cell.trim();
+  if (trimmed === "") return "";
+  const number = Number(trimmed);
+  return Number.isFinite(number) ? number : cell;
+};
+
+/**
+ * Rows of a CSV document (RFC 4180: quoted fields may hold commas, quotes
+ * written twice and line breaks). The first line holds the field names;
+ * blank lines are skipped.
+ */
+export const parseCsv = (text: string): DataRow[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  const [header, ...lines] = records.filter((line) => line.some((value) => value.trim() !== ""));
+  if (!header) return [];
+  const fields = header.map((name, index) => name.trim() || `column${index + 1}`);
+  return lines.map((line) =>
+    Object.fromEntries(fields.map((field, index) => [field, toCellValue(line[index] ?? "")]))
+  );
+};
+
+/**
+ * The rows held in a JSON document: the array at `rowsPath` (dot-separated
+ * keys, empty for the document itself). Throws when there is no array of
+ * objects there.
+ */
+export const extractRows = (data: unknown, rowsPath: string): DataRow[] => {
+  let value = data;
+  for (const key of rowsPath.split(".").filter(Boolean)) {
+    value = value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(rowsPath ? `No array found at "${rowsPath}"` : "Expected an array of rows");
+  }
+  return value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object" && !Array.isArray(item))
+    .map((item) =>
+      Object.fromEntries(
+        Object.entries(item).map(([key, cell]) => [
+          key,
+          cell === null || ["string", "number", "boolean"].includes(typeof cell)
+            ? (cell as DataRow[string])
+            : JSON.stringify(cell),
+        ])
+      )
+    );
+};
+
+const fetchRows = async (url: string, rowsPath: string, signal?: AbortSignal) => {
+  const res = await fetch(url, { signal, cache: "no-store" });
+  if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+  return extractRows(await res.json(), rowsPath);
+};
+
+/** Load the current rows of a data source. Throws with a readable message on failure. */
+export const loadRows = async (source: DataSource, signal?: AbortSignal): Promise<DataRow[]> => {
+  switch (source.kind) {
+    case "static": {
+      let data: unknown;
+      try {
+        data = JSON.parse(source.json);
+      } catch {
+        throw new Error("The JSON is not valid");
+      }
+      return extractRows(data, "");
+    }
+    case "csv":
+      return parseCsv(source.text);
+    case "rest":
+      return fetchRows(source.url, source.rowsPath, signal);
+    case "route":
+      return fetchRows(source.path, "rows", signal);
+  }
+};
+
+/** Every field used by the rows, in order of first appearance */
+export const listFields = (rows: DataRow[]): string[] => {
+  const fields = new Set<string>();
+  for (const row of rows) Object.keys(row).forEach((field) => fields.add(field));
+  return [...fields];
+};
+
+const isNumeric = (value: DataRow[string]) =>
+  typeof value === "number" || (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)));
+
+/** Fields whose values all read as numbers, i.e. the ones that can be plotted */
+export const listNumericFields = (rows: DataRow[]): string[] =>
+  listFields(rows).filter((field) =>
+    rows.every((row) => row[field] === undefined || row[field] === null || row[field] === "" || isNumeric(row[field]))
+  );
+
+/** "regions_total" -> "Regions total" */
+export const toFieldLabel = (field: string): string => {
+  const words = field.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ").trim();
+  return words ? words[0].toUpperCase() + words.slice(1).toLowerCase() : field;
+};
+
+/**
+ * A starting mapping for freshly loaded rows: the first non-numeric field as
+ * the category, and every numeric one as a series. Series already mapped to a
+ * field keep their label and color.
+ */
+export const suggestMapping = (rows: DataRow[], previous?: FieldMapping): FieldMapping => {
+  const fields = listFields(rows);
+  const numeric = listNumericFields(rows);
+  const categoryField =
+    (previous && fields.includes(previous.categoryField) ? previous.categoryField : undefined) ??
+    fields.find((field) => !numeric.includes(field)) ??
+    fields[0] ??
+    "";
+  const candidates = numeric.filter((field) => field !== categoryField);
+  const kept = previous?.series.filter((series) => candidates.includes(series.field)) ?? [];
+  return {
+    categoryField,
+    series: kept.length
+      ? kept
+      : candidates.map((field, index) => ({
+          field,
+          label: toFieldLabel(field),
+          color: SERIES_COLORS[index % SERIES_COLORS.length],
+        })),
+  };
+};
+
+/**
+ * The rows as recharts data: the category as text and every mapped field as
+ * a number (0 when missing or unreadable). Other fields are dropped.
+ */
+export const toChartData = (rows: DataRow[], mapping: FieldMapping): Record<string, string | number>[] =>
+  rows.map((row) => {
+    const point: Record<string, string | number> = {
+      [mapping.categoryField]: String(row[mapping.categoryField] ?? ""),
+    };
+    for (const { field } of mapping.series) {
+      const value = Number(row[field]);
+      point[field] = Number.isFinite(value) ? value : 0;
+    }
+    return point;
+  });
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { dataSourceSchema, fieldMappingSchema, seriesMappingSchema } from "@/lib/chart-data";
+
+/**
+ * How a chart widget presents its data: texts, legend and tooltip, bar
+ * layout and axis formatting. Stored with the widget's config next to its
+ * data source; the series labels and colors live in the field mapping.
+ */
+
+/** How the numbers on the value axis are written */
+export type ValueFormat = "number" | "compact" | "percent";
+
+export type ChartSettings = {
+  // Empty texts are not shown
+  title: string;
+  description: string;
+  footer: string;
+  showLegend: boolean;
+  showTooltip: boolean;
+  // Series side by side, or on top of each other (bar charts)
+  barLayout: "grouped" | "stacked";
+  axis: {
+    showGrid: boolean;
+    showValueAxis: boolean;
+    valueFormat: ValueFormat;
+    // Longest category label on the x axis, in characters; 0 shows them in full
+    categoryLabelLength: number;
+  };
+};
+
+export const VALUE_FORMATS: Record<ValueFormat, { label: string }> = {
+  number: { label: "Number (1,234)" },
+  compact: { label: "Compact (1.2K)" },
+  percent: { label: "Percent (12%)" },
+};
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = {
+  title: "",
+  description: "",
+  footer: "",
+  showLegend: true,
+  showTooltip: true,
+  barLayout: "grouped",
+  axis: {
+    showGrid: true,
+    showValueAxis: false,
+    valueFormat: "number",
+    categoryLabelLength: 0,
+  },
+};
+
+export const chartSettingsSchema = z.object({
+  title: z.string().trim().max(80),
+  description: z.string().trim().max(160),
+  footer: z.string().trim().max(160),
+  showLegend: z.boolean(),
+  showTooltip: z.boolean(),
+  barLayout: z.enum(["grouped", "stacked"]),
+  axis: z.object({
+    showGrid: z.boolean(),
+    showValueAxis: z.boolean(),
+    valueFormat: z.enum(["number", "compact", "percent"]),
+    categoryLabelLength: z.number().int().min(0, "Use 0 for no limit").max(100),
+  }),
+});
+
+/**
+ * Settings as stored on a widget. Settings missing from configs saved by an
+ * older version take their defaults instead of failing the whole config.
+ */
+export const storedChartSettingsSchema = z.preprocess((value) => {
+  const stored = value && typeof value === "object" ? (value as Partial<ChartSettings>) : {};
+  return {
+    ...DEFAULT_CHART_SETTINGS,
+    ...stored,
+    axis: { ...DEFAULT_CHART_SETTINGS.axis, ...stored.axis },
+  };
+}, chartSettingsSchema);
+
+/** Config shared by the chart widgets */
+export const chartWidgetConfigSchema = z.object({
+  dataSource: dataSourceSchema,
+  mapping: fieldMappingSchema,
+  settings: storedChartSettingsSchema,
+});
+
+export type ChartWidgetConfig = z.infer<typeof chartWidgetConfigSchema>;
+
+/** What the settings dialog edits: the settings, plus the labels and colors of the series */
+export const chartSettingsFormSchema = z.object({
+  settings: chartSettingsSchema,
+  series: z.array(seriesMappingSchema),
+});
+
+export type ChartSettingsForm = z.infer<typeof chartSettingsFormSchema>;
+
+const numberFormats: Record<ValueFormat, Intl.NumberFormat> = {
+  number: new Intl.NumberFormat(),
+  compact: new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 }),
+  // Values are taken as percentages already, i.e. 12 is 12%
+  percent: new Intl.NumberFormat(undefined, { maximumFractionDigits: 1 }),
+};
+
+/** A value as written on the value axis */
+export const formatValue = (value: unknown, format: ValueFormat): string => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return String(value);
+  const text = numberFormats[format].format(number);
+  return format === "percent" ? `${text}%` : text;
+};
+
+/** A category label cut down to `maxLength` characters (0 for no limit) */
+export const formatCategory = (value: unknown, maxLength: number): string => {
+  const text = String(value);
+  return maxLength > 0 && text.length > maxLength ? text.slice(0, maxLength) : text;
+};
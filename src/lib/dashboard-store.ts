@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  DEFAULT_DASHBOARD_NAME,
+  createDefaultDashboard,
+  type Dashboard,
+  type DashboardContent,
+  type DashboardUpdate,
+} from "@/lib/dashboards";
+import { createJsonStore } from "@/lib/json-store";
+
+/**
+ * File-backed store for dashboards, in `data/dashboards.json`.
+ * An empty store starts out with the default dashboard.
+ */
+const store = createJsonStore<Dashboard>("dashboards.json", () => [createDefaultDashboard()]);
+
+/** Outcome of a save: the stored dashboard, which on a conflict is the newer copy */
+export type DashboardSaveResult = { status: "saved" | "conflict"; dashboard: Dashboard };
+
+// Dashboards saved before they had names get the default one
+const withName = (dashboard: Dashboard): Dashboard => ({
+  ...dashboard,
+  name: dashboard.name ?? DEFAULT_DASHBOARD_NAME,
+});
+
+export async function listDashboards(): Promise<Dashboard[]> {
+  return (await store.list()).map(withName);
+}
+
+export async function getDashboard(id: string): Promise<Dashboard | null> {
+  const dashboards = await listDashboards();
+  return dashboards.find((dashboard) => dashboard.id === id) ?? null;
+}
+
+/** Add a dashboard, empty or with the given widgets and layout */
+export function createDashboard(
+  name: string,
+  content: DashboardContent = { componentList: [], layout: [] }
+): Promise<Dashboard> {
+  return store.mutate((dashboards) => {
+    const now = new Date().toISOString();
+    const dashboard: Dashboard = {
+      id: uuidv4(),
+      name,
+      ...content,
+      revision: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return { items: [...dashboards, dashboard], result: dashboard };
+  });
+}
+
+/**
+ * Save a dashboard's widgets and layout, unless it has been saved since the
+ * revision the update is based on; resolves to null when the id is unknown
+ */
+export function saveDashboard(id: string, update: DashboardUpdate): Promise<DashboardSaveResult | null> {
+  return store.mutate<DashboardSaveResult | null>((dashboards) => {
+    const index = dashboards.findIndex((dashboard) => dashboard.id === id);
+    if (index < 0) return { items: dashboards, result: null };
+    const current = withName(dashboards[index]);
+    if (update.revision !== current.revision) {
+      return { items: dashboards, result: { status: "conflict", dashboard: current } };
+    }
+    const next = [...dashboards];
+    next[index] = {
+      ...current,
+      componentList: update.componentList,
+      layout: update.layout,
+      revision: current.revision + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    return { items: next, result: { status: "saved", dashboard: next[index] } };
+  });
+}
+
+/**
+ * Rename a dashboard; resolves to null when the id is unknown. The name is
+ * not part of the content, so the revision stays and pending saves of the
+ * widgets and layout still go through.
+ */
+export function renameDashboard(id: string, name: string): Promise<Dashboard | null> {
+  return store.mutate((dashboards) => {
+    const index = dashboards.findIndex((dashboard) => dashboard.id === id);
+    if (index < 0) return { items: dashboards, result: null };
+    const next = [...dashboards];
+    next[index] = {
+      ...dashboards[index],
+      name,
+      updatedAt: new Date().toISOString(),
+    };
+    return { items: next, result: next[index] };
+  });
+}
+
+/** Delete a dashboard; resolves to false when the id is unknown */
+export function deleteDashboard(id: string): Promise<boolean> {
+  return store.mutate((dashboards) => {
+    const next = dashboards.filter((dashboard) => dashboard.id !== id);
+    return { items: next, result: next.length !== dashboards.length };
+  });
+}
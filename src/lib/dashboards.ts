@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+
+/** A widget placed on a dashboard; `_id` doubles as the key of its grid item */
+export type ComponentItem = {
+  _id: string;
+  // Id of the widget type in the widget registry
+  componentName: string;
+  // Settings of this widget, checked against its type's config schema when rendered
+  config?: Record<string, unknown>;
+};
+
+/** Position and size of a widget on the 12-column grid, as react-grid-layout reports it */
+export type LayoutItem = {
+  i: string; // A unique ID for the item
+  x: number; // The x-position on the grid
+  y: number; // The y-position on the grid
+  w: number; // The width of the item
+  h: number; // The height of the item
+  isDraggable?: boolean;
+  isResizable?: boolean;
+  static?: boolean;
+  minW?: number;
+  maxW?: number;
+  minH?: number;
+  maxH?: number;
+};
+
+/**
+ * A saved dashboard: its widgets and where they sit on the grid.
+ *
+ * `revision` goes up by one on every save. A save has to name the revision
+ * it was based on, so a tab holding a stale copy can't overwrite changes
+ * made in another tab or window.
+ */
+export type Dashboard = {
+  id: string;
+  name: string;
+  componentList: ComponentItem[];
+  layout: LayoutItem[];
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** What a dashboard holds, without its bookkeeping */
+export type DashboardContent = Pick<Dashboard, "componentList" | "layout">;
+
+/** The dashboard shown on /ask-ai; it can't be deleted */
+export const DEFAULT_DASHBOARD_ID = "default";
+
+/** Name of the default dashboard, and of dashboards saved before they had names */
+export const DEFAULT_DASHBOARD_NAME = "Dashboard";
+
+/** The first dashboard starts out with a single bar chart */
+export const createDefaultDashboard = (): Dashboard => {
+  const now = new Date().toISOString();
+  return {
+    id: DEFAULT_DASHBOARD_ID,
+    name: DEFAULT_DASHBOARD_NAME,
+    componentList: [{ _id: uuidv4(), componentName: "BarChartComponent" }],
+    // Left empty so the grid places the widget with its default size
+    layout: [],
+    revision: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const componentItemSchema = z.object({
+  _id: z.string().min(1),
+  componentName: z.string().min(1).max(64),
+  config: z.record(z.unknown()).optional(),
+});
+
+const gridUnits = z.number().int().nonnegative();
+
+export const layoutItemSchema = z.object({
+  i: z.string().min(1),
+  x: gridUnits,
+  y: gridUnits,
+  w: z.number().int().positive(),
+  h: z.number().int().positive(),
+  isDraggable: z.boolean().optional(),
+  isResizable: z.boolean().optional(),
+  static: z.boolean().optional(),
+  minW: gridUnits.optional(),
+  maxW: gridUnits.optional(),
+  minH: gridUnits.optional(),
+  maxH: gridUnits.optional(),
+});
+
+export const dashboardContentSchema = z.object({
+  componentList: z.array(componentItemSchema).max(100),
+  layout: z.array(layoutItemSchema).max(100),
+});
+
+export const dashboardUpdateSchema = dashboardContentSchema.extend({
+  // Revision of the copy the changes were made to
+  revision: z.number().int().nonnegative(),
+});
+
+export type DashboardUpdate = z.infer<typeof dashboardUpdateSchema>;
+
+export const dashboardInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+});
+
+export type DashboardInput = z.infer<typeof dashboardInputSchema>;
+
+export const dashboardCreateSchema = dashboardInputSchema.extend({
+  // Dashboard whose widgets and layout the new one starts from
+  templateId: z.string().min(1).optional(),
+});
+
+export type DashboardCreate = z.infer<typeof dashboardCreateSchema>;
+
+/** Copy a dashboard's widgets and layout under fresh widget ids, for use as a template */
+export const copyDashboardContent = (content: DashboardContent): DashboardContent => {
+  const componentList = content.componentList.map((item) => ({ ...item, _id: uuidv4() }));
+  const ids = new Map(content.componentList.map((item, index) => [item._id, componentList[index]._id]));
+  // Grid items of widgets that no longer exist are left behind
+  const layout = content.layout.flatMap((item) => {
+    const id = ids.get(item.i);
+    return id ? [{ ...item, i: id }] : [];
+  });
+  return { componentList, layout };
+};
+
+// Tabs announce a dashboard they saved or renamed on its own channel, see DashboardMessage
+export const dashboardChannelName = (id: string) => `dashboard:${id}`;
+
+/**
+ * A message on a dashboard's channel: a save, with the stored copy, or a
+ * rename. A rename leaves the widgets and layout alone, so receivers only
+ * take over the name and keep any unsaved edits.
+ */
+export type DashboardMessage =
+  | { type: "saved"; dashboard: Dashboard }
+  | { type: "renamed"; name: string };
+
+// Tabs announce that dashboards were added, renamed or deleted on this one
+export const DASHBOARD_LIST_CHANNEL = "dashboards";
+
+/**
+ * The persisted part of a grid layout. react-grid-layout adds its own flags
+ * (`moved`, and `static` on every item) when it reports a layout; dropping
+ * them keeps two equal layouts equal once serialized.
+ */
+export const toDashboardLayout = (layout: LayoutItem[]): LayoutItem[] =>
+  layout.map(({ i, x, y, w, h, minW, maxW, minH, maxH }) => ({ i, x, y, w, h, minW, maxW, minH, maxH }));
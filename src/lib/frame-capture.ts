@@ -0,0 +1,53 @@
+/**
+ * Helpers for grabbing still frames from the canvas' video (or image) element.
+ * Browser-only: these rely on DOM canvases.
+ */
+
+export type ImageFormat = "png" | "jpeg";
+
+/** Thrown when a frame can't be read, e.g. the video isn't ready or is cross-origin */
+export class FrameCaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FrameCaptureError";
+  }
+}
+
+/**
+ * Copy the current video frame (or still image) into an offscreen canvas,
+ * at its intrinsic resolution or scaled down to at most `maxWidth`.
+ */
+export const captureVideoFrame = (
+  media: HTMLVideoElement | HTMLImageElement,
+  maxWidth = Infinity
+): HTMLCanvasElement => {
+  const isVideo = media instanceof HTMLVideoElement;
+  const width = isVideo ? media.videoWidth : media.naturalWidth;
+  const height = isVideo ? media.videoHeight : media.naturalHeight;
+  if (!width || (isVideo && media.readyState < HTMLMediaElement.HAVE_CURRENT_DATA)) {
+    throw new FrameCaptureError("The video has no frame to capture yet.");
+  }
+  const scale = Math.min(1, maxWidth / width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext("2d")?.drawImage(media, 0, 0, canvas.width, canvas.height);
+
+  // Reading pixels back fails when the source didn't allow cross-origin access
+  try {
+    canvas.getContext("2d")?.getImageData(0, 0, 1, 1);
+  } catch {
+    throw new FrameCaptureError("This video source does not allow frame capture (CORS).");
+  }
+  return canvas;
+};
+
+/** Encode a canvas as an image blob */
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: ImageFormat, quality = 0.92) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new FrameCaptureError("Could not encode the image."))),
+      `image/${format}`,
+      quality
+    )
+  );
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  approximateEllipse,
+  distanceToOutline,
+  findSegmentNear,
+  findVertexNear,
+  getShapeAtPoint,
+  isPointInPolygon,
+  isPointInRings,
+  isPointOnTarget,
+  type HitTarget,
+} from "@/lib/geometry";
+import type { Point } from "@/lib/regions";
+
+const square = (x: number, y: number, size: number): Point[] => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+];
+
+// A "U": the notch between the arms is inside the bounding box but outside the shape
+const concave: Point[] = [
+  { x: 0, y: 0 },
+  { x: 30, y: 0 },
+  { x: 30, y: 30 },
+  { x: 20, y: 30 },
+  { x: 20, y: 10 },
+  { x: 10, y: 10 },
+  { x: 10, y: 30 },
+  { x: 0, y: 30 },
+];
+
+describe("isPointInPolygon", () => {
+  it("tests concave polygons against their outline, not their bounding box", () => {
+    expect(isPointInPolygon({ x: 15, y: 20 }, concave)).toBe(false);
+    expect(isPointInPolygon({ x: 5, y: 20 }, concave)).toBe(true);
+    expect(isPointInPolygon({ x: 25, y: 25 }, concave)).toBe(true);
+    expect(isPointInPolygon({ x: 15, y: 5 }, concave)).toBe(true);
+    expect(isPointInPolygon({ x: 35, y: 5 }, concave)).toBe(false);
+  });
+
+  it("ignores a repeated closing vertex", () => {
+    expect(isPointInPolygon({ x: 15, y: 20 }, [...concave, concave[0]])).toBe(false);
+    expect(isPointInPolygon({ x: 5, y: 20 }, [...concave, concave[0]])).toBe(true);
+  });
+});
+
+describe("isPointInRings", () => {
+  const outline = square(0, 0, 40);
+  const hole = square(10, 10, 20);
+
+  it("leaves points in a hole outside (even-odd)", () => {
+    expect(isPointInRings({ x: 20, y: 20 }, [outline, hole])).toBe(false);
+    expect(isPointInRings({ x: 5, y: 5 }, [outline, hole])).toBe(true);
+    expect(isPointInRings({ x: 35, y: 20 }, [outline, hole])).toBe(true);
+    expect(isPointInRings({ x: 45, y: 20 }, [outline, hole])).toBe(false);
+  });
+
+  it("counts an island inside the hole as inside again", () => {
+    const island = square(15, 15, 10);
+    expect(isPointInRings({ x: 20, y: 20 }, [outline, hole, island])).toBe(true);
+    expect(isPointInRings({ x: 12, y: 12 }, [outline, hole, island])).toBe(false);
+  });
+});
+
+describe("isPointOnTarget", () => {
+  // A one-pixel sliver: nearly impossible to click inside
+  const sliver: HitTarget = {
+    outline: [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 1 },
+      { x: 0, y: 1 },
+    ],
+    closed: true,
+  };
+
+  it("hits thin shapes near their edges within the tolerance", () => {
+    expect(isPointOnTarget({ x: 50, y: 0.5 }, sliver, 0)).toBe(true);
+    expect(isPointOnTarget({ x: 50, y: 4 }, sliver, 6)).toBe(true);
+    expect(isPointOnTarget({ x: 50, y: 4 }, sliver, 2)).toBe(false);
+    expect(isPointOnTarget({ x: -3, y: 0.5 }, sliver, 3)).toBe(true);
+  });
+
+  it("only hits open paths along their segments, without a closing edge", () => {
+    const tripwire: HitTarget = {
+      outline: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+      ],
+      closed: false,
+    };
+    expect(isPointOnTarget({ x: 50, y: 5 }, tripwire, 6)).toBe(true);
+    expect(isPointOnTarget({ x: 50, y: 5 }, tripwire, 4)).toBe(false);
+    // Inside the triangle the path would close into, and on its closing edge
+    expect(isPointOnTarget({ x: 80, y: 20 }, tripwire, 6)).toBe(false);
+    expect(isPointOnTarget({ x: 50, y: 50 }, tripwire, 6)).toBe(false);
+  });
+
+  it("uses the exact interior of rotated ellipses", () => {
+    const center = { x: 50, y: 50 };
+    // Rotated a quarter turn, so the long axis runs vertically
+    const ellipse = { center, rx: 40, ry: 10, rotation: Math.PI / 2 };
+    const target: HitTarget = {
+      outline: approximateEllipse(center, ellipse.rx, ellipse.ry, ellipse.rotation),
+      closed: true,
+      ellipse,
+    };
+    expect(isPointOnTarget({ x: 50, y: 85 }, target, 0)).toBe(true);
+    expect(isPointOnTarget({ x: 85, y: 50 }, target, 6)).toBe(false);
+  });
+});
+
+describe("getShapeAtPoint", () => {
+  const lower: HitTarget = { outline: square(0, 0, 40), closed: true };
+  const upper: HitTarget = { outline: square(20, 20, 40), closed: true };
+
+  it("returns the top-most shape (the last one painted) first", () => {
+    expect(getShapeAtPoint({ x: 30, y: 30 }, [lower, upper], 0)).toBe(1);
+    expect(getShapeAtPoint({ x: 30, y: 30 }, [upper, lower], 0)).toBe(1);
+    expect(getShapeAtPoint({ x: 10, y: 10 }, [lower, upper], 0)).toBe(0);
+    expect(getShapeAtPoint({ x: 50, y: 50 }, [lower, upper], 0)).toBe(1);
+  });
+
+  it("returns -1 over empty space", () => {
+    expect(getShapeAtPoint({ x: 80, y: 5 }, [lower, upper], 6)).toBe(-1);
+    expect(getShapeAtPoint({ x: 5, y: 5 }, [], 6)).toBe(-1);
+  });
+
+  it("lets clicks in a hole through to the shape below", () => {
+    const ring: HitTarget = { outline: square(0, 0, 40), holes: [square(10, 10, 20)], closed: true };
+    const below: HitTarget = { outline: square(15, 15, 10), closed: true };
+    expect(getShapeAtPoint({ x: 20, y: 20 }, [below, ring], 0)).toBe(0);
+    expect(getShapeAtPoint({ x: 5, y: 5 }, [below, ring], 0)).toBe(1);
+  });
+
+  it("doesn't pick a concave shape from inside its notch", () => {
+    const behind: HitTarget = { outline: square(0, 0, 30), closed: true };
+    const front: HitTarget = { outline: concave, closed: true };
+    expect(getShapeAtPoint({ x: 15, y: 20 }, [behind, front], 2)).toBe(0);
+    expect(getShapeAtPoint({ x: 15, y: 5 }, [behind, front], 2)).toBe(1);
+  });
+});
+
+describe("distanceToOutline", () => {
+  const outline = square(0, 0, 10);
+
+  it("measures to the closing edge of a closed outline", () => {
+    expect(distanceToOutline({ x: -3, y: 5 }, outline)).toBe(3);
+  });
+
+  it("skips the closing edge of an open path", () => {
+    expect(distanceToOutline({ x: -3, y: 5 }, outline, false)).toBe(Math.hypot(3, 5));
+  });
+
+  it("is infinite for an empty outline", () => {
+    expect(distanceToOutline({ x: 0, y: 0 }, [])).toBe(Infinity);
+  });
+});
+
+describe("findVertexNear", () => {
+  const points: Point[] = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 6, y: 8 },
+  ];
+
+  it("hits a vertex exactly at the tolerance and misses just beyond it", () => {
+    // (97, 4) is exactly 5 from (100, 0)
+    expect(findVertexNear({ x: 97, y: 4 }, points, 5)).toBe(1);
+    expect(findVertexNear({ x: 97, y: 4 }, points, 4.999)).toBe(-1);
+  });
+
+  it("picks the closest vertex within the tolerance", () => {
+    expect(findVertexNear({ x: 4, y: 6 }, points, 10)).toBe(2);
+    expect(findVertexNear({ x: 1, y: 1 }, points, 10)).toBe(0);
+  });
+});
+
+describe("findSegmentNear", () => {
+  const ring: Point[] = [...square(0, 0, 10), { x: 0, y: 0 }];
+
+  it("hits a segment exactly at the tolerance and misses just beyond it", () => {
+    expect(findSegmentNear({ x: 5, y: -3 }, ring, 3)).toEqual({ index: 0, t: 0.5 });
+    expect(findSegmentNear({ x: 5, y: -3 }, ring, 2.999)).toBeNull();
+  });
+
+  it("includes the closing edge of a closed ring", () => {
+    expect(findSegmentNear({ x: -2, y: 2.5 }, ring, 3)).toEqual({ index: 3, t: 0.75 });
+  });
+
+  it("measures past the ends of a segment to its end point", () => {
+    const path: Point[] = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+    ];
+    // (13, 4) is exactly 5 from the end point (10, 0)
+    expect(findSegmentNear({ x: 13, y: 4 }, path, 5)).toEqual({ index: 0, t: 1 });
+    expect(findSegmentNear({ x: 13, y: 4 }, path, 4.999)).toBeNull();
+  });
+});
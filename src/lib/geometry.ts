@@ -0,0 +1,368 @@
+import type { Point } from "@/lib/regions";
+
+/**
+ * Plain 2D geometry helpers used for hit-testing shapes on the canvas.
+ * All functions are coordinate-space agnostic: pass points and tolerances
+ * in the same space (e.g. on-screen pixels) and the results stay consistent.
+ */
+
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+/** Euclidean distance between two points */
+export const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Axis-aligned bounding box of a list of points */
+export const getBounds = (points: Point[]): Bounds => {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys),
+  };
+};
+
+/** Midpoint of the segment a-b */
+export const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Position along the segment a-b closest to a point.
+ *
+ * @returns `t` in 0..1 (0 at a, 1 at b); 0 for a degenerate segment.
+ */
+export const projectOntoSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  // Degenerate segment: both ends are the same point
+  if (lengthSq === 0) return 0;
+
+  // Project p onto the segment and clamp to its ends
+  return Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+};
+
+/** Point at position `t` (0..1) along the segment a-b */
+export const lerp = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+/**
+ * Shortest distance from a point to the segment a-b.
+ *
+ * @param p - The point to measure from.
+ * @param a - Segment start.
+ * @param b - Segment end.
+ */
+export const distanceToSegment = (p: Point, a: Point, b: Point): number =>
+  distance(p, lerp(a, b, projectOntoSegment(p, a, b)));
+
+/**
+ * Shortest distance from a point to the outline of a polygon or polyline.
+ *
+ * @param p - The point to measure from.
+ * @param points - Outline vertices, in order.
+ * @param closed - Whether the last vertex connects back to the first.
+ */
+export const distanceToOutline = (p: Point, points: Point[], closed = true): number => {
+  if (points.length === 0) return Infinity;
+  if (points.length === 1) return distance(p, points[0]);
+
+  let min = Infinity;
+  const segmentCount = closed ? points.length : points.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    min = Math.min(min, distanceToSegment(p, a, b));
+  }
+  return min;
+};
+
+/**
+ * Even-odd point-in-polygon test (ray casting).
+ *
+ * A horizontal ray is cast from the point and the polygon edges it crosses are
+ * counted; an odd count means the point is inside. This is correct for concave
+ * and self-intersecting polygons, unlike a bounding-box check. A repeated
+ * closing vertex (last === first) is harmless.
+ *
+ * @param p - The point to test.
+ * @param polygon - Polygon vertices, in order.
+ */
+export const isPointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    // Does edge a-b straddle the ray's y, and is the crossing to the right of p?
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Even-odd test against several rings at once, such as an outline and its
+ * holes: the point is inside when an odd number of rings contain it.
+ */
+export const isPointInRings = (p: Point, rings: Point[][]): boolean =>
+  rings.filter((ring) => isPointInPolygon(p, ring)).length % 2 === 1;
+
+/**
+ * Index of the vertex closest to a point, if it lies within the tolerance.
+ *
+ * @returns The vertex index, or -1 when no vertex is close enough.
+ */
+export const findVertexNear = (p: Point, points: Point[], tolerance: number): number => {
+  let best = -1;
+  let bestDistance = tolerance;
+  points.forEach((vertex, index) => {
+    const d = distance(p, vertex);
+    if (d <= bestDistance) {
+      best = index;
+      bestDistance = d;
+    }
+  });
+  return best;
+};
+
+/**
+ * Segment of a polyline closest to a point, if it lies within the tolerance.
+ * Segments run between consecutive points, so pass a closed ring (last
+ * point repeating the first) to include the closing edge.
+ *
+ * @returns The segment index `i` (from points[i] to points[i + 1]) and the
+ *          position along it, or null when no segment is close enough.
+ */
+export const findSegmentNear = (
+  p: Point,
+  points: Point[],
+  tolerance: number
+): { index: number; t: number } | null => {
+  let best: { index: number; t: number } | null = null;
+  let bestDistance = tolerance;
+  for (let i = 0; i < points.length - 1; i++) {
+    const t = projectOntoSegment(p, points[i], points[i + 1]);
+    const d = distance(p, lerp(points[i], points[i + 1], t));
+    if (d <= bestDistance) {
+      best = { index: i, t };
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+/**
+ * Insert a vertex into a closed ring (or an open path), after points[segmentIndex].
+ *
+ * @returns A new ring; the input is left untouched.
+ */
+export const insertRingVertex = (ring: Point[], segmentIndex: number, vertex: Point): Point[] => [
+  ...ring.slice(0, segmentIndex + 1),
+  vertex,
+  ...ring.slice(segmentIndex + 1),
+];
+
+/**
+ * Remove a vertex from a closed ring (last point repeating the first),
+ * keeping the ring closed when the first/last vertex is removed.
+ *
+ * @returns A new ring, or null if it would be left with fewer than 3 vertices.
+ */
+export const removeRingVertex = (ring: Point[], index: number): Point[] | null => {
+  const vertices = ring.slice(0, -1);
+  if (vertices.length <= 3) return null;
+
+  // The closing point is the same vertex as the first one
+  const remaining = vertices.filter((_, i) => i !== index % vertices.length);
+  return [...remaining, remaining[0]];
+};
+
+/**
+ * Remove a vertex from an open path.
+ *
+ * @returns A new path, or null if it would be left with fewer than 2 vertices.
+ */
+export const removePathVertex = (path: Point[], index: number): Point[] | null =>
+  path.length <= 2 ? null : path.filter((_, i) => i !== index);
+
+/**
+ * Unit normal of the segment a-b, pointing to its right-hand side
+ * (with y pointing down, as on screen), or to its left when flipped.
+ *
+ * @returns The zero vector for a degenerate segment.
+ */
+export const segmentNormal = (a: Point, b: Point, flipped = false): Point => {
+  const length = distance(a, b);
+  if (length === 0) return { x: 0, y: 0 };
+  const sign = flipped ? -1 : 1;
+  return { x: (sign * (a.y - b.y)) / length, y: (sign * (b.x - a.x)) / length };
+};
+
+/**
+ * Crossing direction of a tripwire: the normal of the chord from its first to
+ * its last point, which for a polyline is the length-weighted average of the
+ * segment normals. Paths that end where they start fall back to the first
+ * segment. Measure in pixels; normalized coordinates would skew the angle.
+ */
+export const getCrossingDirection = (path: Point[], flipped = false): Point => {
+  const chord = segmentNormal(path[0], path[path.length - 1], flipped);
+  return chord.x || chord.y ? chord : segmentNormal(path[0], path[1], flipped);
+};
+
+/** Rotate a vector by an angle in radians (clockwise on screen, where y points down) */
+export const rotateVector = (v: Point, angle: number): Point => ({
+  x: v.x * Math.cos(angle) - v.y * Math.sin(angle),
+  y: v.x * Math.sin(angle) + v.y * Math.cos(angle),
+});
+
+/**
+ * Whether a point lies inside (or on) an ellipse.
+ *
+ * @param center - Ellipse center.
+ * @param rx - Semi-axis along the rotated x axis.
+ * @param ry - Semi-axis along the rotated y axis.
+ * @param rotation - Rotation of the axes in radians.
+ */
+export const isPointInEllipse = (
+  p: Point,
+  center: Point,
+  rx: number,
+  ry: number,
+  rotation = 0
+): boolean => {
+  if (rx <= 0 || ry <= 0) return false;
+  // Express the point in the ellipse's own (unrotated) frame
+  const local = rotateVector({ x: p.x - center.x, y: p.y - center.y }, -rotation);
+  return (local.x / rx) ** 2 + (local.y / ry) ** 2 <= 1;
+};
+
+/** A shape as seen by the hit test, in the same space as the tested point */
+export type HitTarget = {
+  outline: Point[];
+  // Points inside a hole are outside the shape (even-odd)
+  holes?: Point[][];
+  // Open paths (tripwires) have no interior and no closing edge
+  closed: boolean;
+  // Circles and ellipses test against their exact outline rather than its polygon
+  ellipse?: { center: Point; rx: number; ry: number; rotation: number };
+};
+
+/**
+ * Whether a point is inside a shape, or near enough to its outline that
+ * thin shapes stay grabbable.
+ *
+ * @param tolerance - Largest distance from the outline that still counts.
+ */
+export const isPointOnTarget = (p: Point, target: HitTarget, tolerance: number): boolean => {
+  if (target.closed) {
+    const { ellipse } = target;
+    const inside = ellipse
+      ? isPointInEllipse(p, ellipse.center, ellipse.rx, ellipse.ry, ellipse.rotation)
+      : isPointInRings(p, [target.outline, ...(target.holes ?? [])]);
+    if (inside) return true;
+  }
+  return distanceToOutline(p, target.outline, target.closed) <= tolerance;
+};
+
+/**
+ * Index of the top-most shape under a point. Targets are in paint order, so
+ * later ones are on top and win over the ones they cover.
+ *
+ * @returns The target index, or -1 when the point is over empty space.
+ */
+export const getShapeAtPoint = (p: Point, targets: HitTarget[], tolerance: number): number => {
+  for (let i = targets.length - 1; i >= 0; i--) {
+    if (isPointOnTarget(p, targets[i], tolerance)) return i;
+  }
+  return -1;
+};
+
+/**
+ * Polygon approximation of an ellipse.
+ *
+ * @returns A closed ring of `segments` vertices (plus the repeated first one).
+ */
+export const approximateEllipse = (
+  center: Point,
+  rx: number,
+  ry: number,
+  rotation = 0,
+  segments = 64
+): Point[] => {
+  const ring = Array.from({ length: segments }, (_, i) => {
+    const t = (i / segments) * Math.PI * 2;
+    const offset = rotateVector({ x: rx * Math.cos(t), y: ry * Math.sin(t) }, rotation);
+    return { x: center.x + offset.x, y: center.y + offset.y };
+  });
+  return [...ring, ring[0]];
+};
+
+/** Rotate a point around a center by an angle in radians */
+export const rotateAround = (p: Point, center: Point, angle: number): Point => {
+  const v = rotateVector({ x: p.x - center.x, y: p.y - center.y }, angle);
+  return { x: center.x + v.x, y: center.y + v.y };
+};
+
+/** Wrap an angle in radians into (-π, π] */
+export const normalizeAngle = (angle: number): number => {
+  const wrapped = angle % (Math.PI * 2);
+  if (wrapped > Math.PI) return wrapped - Math.PI * 2;
+  if (wrapped <= -Math.PI) return wrapped + Math.PI * 2;
+  return wrapped;
+};
+
+/** Area enclosed by a polygon (shoelace formula); a repeated closing vertex is harmless */
+export const polygonArea = (polygon: Point[]): number => {
+  let twice = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    twice += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+  }
+  return Math.abs(twice) / 2;
+};
+
+/** Which side of the line a-b the point c lies on: 1, -1, or 0 when collinear */
+const orientation = (a: Point, b: Point, c: Point): number =>
+  Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+
+/** Whether c, known to be collinear with a-b, lies within the segment's box */
+const isOnSegment = (a: Point, b: Point, c: Point): boolean =>
+  c.x >= Math.min(a.x, b.x) &&
+  c.x <= Math.max(a.x, b.x) &&
+  c.y >= Math.min(a.y, b.y) &&
+  c.y <= Math.max(a.y, b.y);
+
+/** Whether the segments a-b and c-d touch or cross, including collinear overlaps */
+export const segmentsIntersect = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && isOnSegment(a, b, c)) ||
+    (o2 === 0 && isOnSegment(a, b, d)) ||
+    (o3 === 0 && isOnSegment(c, d, a)) ||
+    (o4 === 0 && isOnSegment(c, d, b))
+  );
+};
+
+/**
+ * Whether any two non-adjacent edges of a polyline touch or cross. Pass a
+ * closed ring (last point repeating the first) with `closed` so the closing
+ * edge and the first edge count as neighbours.
+ */
+export const isSelfIntersecting = (points: Point[], closed = true): boolean => {
+  const segmentCount = points.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    // Neighbouring edges share a vertex, so start two edges further along
+    for (let j = i + 2; j < segmentCount; j++) {
+      if (closed && i === 0 && j === segmentCount - 1) continue;
+      if (segmentsIntersect(points[i], points[i + 1], points[j], points[j + 1])) return true;
+    }
+  }
+  return false;
+};
@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A list of records kept in a single JSON file under `data/` in the project root.
+ *
+ * Writes go to a temp file first and are renamed into place, and every
+ * mutation is queued so concurrent requests can't interleave their writes.
+ */
+export function createJsonStore<T>(fileName: string, initial: () => T[] = () => []) {
+  const dataDir = path.join(process.cwd(), "data");
+  const file = path.join(dataDir, fileName);
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  /** The stored records, or null when nothing has been saved yet */
+  async function readFile(): Promise<T[] | null> {
+    try {
+      const raw = await fs.readFile(file, "utf-8");
+      return JSON.parse(raw) as T[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async function read(): Promise<T[]> {
+    return (await readFile()) ?? initial();
+  }
+
+  async function write(items: T[]) {
+    await fs.mkdir(dataDir, { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(items, null, 2), "utf-8");
+    await fs.rename(tmpFile, file);
+  }
+
+  /** Run a read-modify-write against the store, one at a time */
+  function mutate<R>(fn: (items: T[]) => { items: T[]; result: R }): Promise<R> {
+    const next = writeQueue.then(async () => {
+      const { items, result } = fn(await read());
+      await write(items);
+      return result;
+    });
+    // Keep the queue alive even if this mutation fails
+    writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    /** Read every record, after any pending writes have landed */
+    async list(): Promise<T[]> {
+      await writeQueue;
+      const items = await readFile();
+      if (items) return items;
+      if (initial().length === 0) return [];
+      // Seed records get fresh ids each time they are made, so store them on first use
+      return mutate((seeded) => ({ items: seeded, result: seeded }));
+    },
+
+    mutate,
+  };
+}
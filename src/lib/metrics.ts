@@ -0,0 +1,51 @@
+import type { DataRow } from "@/lib/chart-data";
+import { listCameras } from "@/lib/camera-store";
+import { listRegions } from "@/lib/region-store";
+import { REGION_CATEGORIES, type Region, type RegionCategory } from "@/lib/regions";
+
+/**
+ * Live metrics about the scene, served by /api/metrics/:name as rows for the
+ * chart widgets. Keep LOCAL_DATA_ROUTES in `chart-data.ts` in step.
+ */
+
+const categories = Object.keys(REGION_CATEGORIES) as RegionCategory[];
+
+const countByCategory = (regions: Region[]) =>
+  Object.fromEntries(
+    categories.map((category) => [
+      REGION_CATEGORIES[category].label,
+      regions.filter((region) => region.category === category).length,
+    ])
+  );
+
+const METRICS: Record<string, () => Promise<DataRow[]>> = {
+  "regions-by-category": async () => {
+    const regions = await listRegions();
+    return categories.map((category) => ({
+      category: REGION_CATEGORIES[category].label,
+      regions: regions.filter((region) => region.category === category).length,
+    }));
+  },
+  "regions-by-camera": async () => {
+    const [cameras, regions] = await Promise.all([listCameras(), listRegions()]);
+    return cameras.map((camera) => ({
+      camera: camera.name,
+      ...countByCategory(regions.filter((region) => region.cameraId === camera.id)),
+    }));
+  },
+  cameras: async () => {
+    const [cameras, regions] = await Promise.all([listCameras(), listRegions()]);
+    return cameras.map((camera) => ({
+      camera: camera.name,
+      regions: regions.filter((region) => region.cameraId === camera.id).length,
+      width: camera.resolution.width,
+      height: camera.resolution.height,
+    }));
+  },
+};
+
+/** The current rows of a metric, or null when there is no metric by that name */
+export async function readMetric(name: string): Promise<DataRow[] | null> {
+  const metric = Object.hasOwn(METRICS, name) ? METRICS[name] : undefined;
+  return metric ? metric() : null;
+}
@@ -0,0 +1,67 @@
+import polygonClipping, { type MultiPolygon, type Polygon } from "polygon-clipping";
+import { v4 as uuidv4 } from "uuid";
+import { toNormalizedPoint, toPixelPoint, type FrameSize, type Point, type Shape } from "@/lib/regions";
+
+/**
+ * Boolean operations between area shapes. The shapes are clipped in source
+ * pixels, so circles and ellipses take part through their polygon
+ * approximation, and every result is a plain polygon, possibly with holes.
+ */
+
+export type BooleanOperation = "union" | "difference" | "intersection" | "xor";
+
+export const BOOLEAN_OPERATIONS: Record<BooleanOperation, { label: string; description: string }> = {
+  union: { label: "Union", description: "Merge the selected shapes into one" },
+  difference: { label: "Subtract", description: "Cut the upper shapes out of the lowest one" },
+  intersection: { label: "Intersect", description: "Keep only the area all shapes share" },
+  xor: { label: "Exclude", description: "Keep the area covered by an odd number of shapes" },
+};
+
+/** Whether a shape has an area that can be combined with others */
+export const isCombinable = (shape: Shape): boolean => shape.type !== "line" && shape.type !== "none";
+
+/** A shape's outline and holes in source pixels, in the clipper's format */
+const toClipPolygon = (shape: Shape, frame: FrameSize): Polygon =>
+  [shape.points, ...(shape.holes ?? [])].map((ring) =>
+    ring.map((point) => {
+      const { x, y } = toPixelPoint(point, frame);
+      return [x, y];
+    })
+  );
+
+/** Normalized closed ring from a clipper ring, which already repeats its first point */
+const fromClipRing = (ring: [number, number][], frame: FrameSize): Point[] => {
+  const points = ring.map(([x, y]) => toNormalizedPoint({ x, y }, frame));
+  const [first, last] = [points[0], points[points.length - 1]];
+  return first.x === last.x && first.y === last.y ? points : [...points, first];
+};
+
+/**
+ * Combine area shapes with a boolean operation. The lowest shape (first in
+ * drawing order) is the subject: it is what the others are subtracted from,
+ * and its id and metadata carry over to the result. A result that falls
+ * apart into several pieces becomes one polygon per piece.
+ *
+ * @param shapes - At least two area shapes, in drawing order.
+ * @returns The resulting polygons; empty when nothing is left.
+ */
+export const combineShapes = (
+  shapes: Shape[],
+  operation: BooleanOperation,
+  frame: FrameSize
+): Shape[] => {
+  const [subject, ...others] = shapes.map((shape) => toClipPolygon(shape, frame));
+  const result: MultiPolygon = polygonClipping[operation](subject, ...others);
+  const { id, name, category, color, tags } = shapes[0];
+
+  return result.map(([outer, ...holes], index) => ({
+    id: index === 0 ? id : uuidv4(),
+    name: index === 0 ? name : `${name.slice(0, 56)} (${index + 1})`,
+    category,
+    color,
+    tags,
+    type: "polygon",
+    points: fromClipRing(outer, frame),
+    ...(holes.length > 0 && { holes: holes.map((hole) => fromClipRing(hole, frame)) }),
+  }));
+};
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { getBounds } from "@/lib/geometry";
+import { exportRegions, importRegions, RegionFormatError, type RegionFormat } from "@/lib/region-formats";
+import { ellipseToPoints, type FrameSize, type Point, type Shape } from "@/lib/regions";
+
+const frame: FrameSize = { width: 1000, height: 500 };
+
+const ring = (x: number, y: number, w: number, h: number): Point[] => [
+  { x, y },
+  { x: x + w, y },
+  { x: x + w, y: y + h },
+  { x, y: y + h },
+  { x, y },
+];
+
+const withHoles: Shape = {
+  id: "polygon-1",
+  name: "Lobby",
+  category: "entry-zone",
+  color: "#22c55e",
+  tags: ["ground-floor"],
+  type: "polygon",
+  points: ring(0.1, 0.1, 0.5, 0.6),
+  holes: [ring(0.2, 0.2, 0.1, 0.1), ring(0.4, 0.3, 0.1, 0.2)],
+};
+
+const ellipse = { center: { x: 0.7, y: 0.5 }, rx: 0.1, ry: 0.2, rotation: 0.5 };
+
+const oval: Shape = {
+  id: "ellipse-1",
+  name: "Pillar",
+  category: "exclusion",
+  color: "#ef4444",
+  tags: [],
+  type: "ellipse",
+  ellipse,
+  points: ellipseToPoints(ellipse, frame),
+};
+
+const tripwire: Shape = {
+  id: "line-1",
+  name: "Door",
+  category: "counting-line",
+  color: "#3b82f6",
+  tags: ["in"],
+  type: "line",
+  flipped: true,
+  points: [
+    { x: 0.1, y: 0.9 },
+    { x: 0.5, y: 0.8 },
+    { x: 0.9, y: 0.9 },
+  ],
+};
+
+const shapes = [withHoles, oval, tripwire];
+
+/** Numbers rounded away from float noise, and the id dropped, for comparing shapes */
+const comparable = ({ id: _id, ...shape }: Shape) =>
+  JSON.parse(JSON.stringify(shape, (_key, value) => (typeof value === "number" ? Number(value.toFixed(6)) : value)));
+
+const roundedBounds = (points: Point[]) =>
+  Object.fromEntries(Object.entries(getBounds(points)).map(([key, value]) => [key, Number(value.toFixed(6))]));
+
+const roundTrip = (format: RegionFormat) => importRegions(exportRegions(shapes, frame, format), frame);
+
+describe.each<RegionFormat>(["geojson", "coco"])("%s round trip", (format) => {
+  it("restores every shape with its metadata and geometry", () => {
+    const imported = roundTrip(format);
+    expect(imported.frame).toEqual(frame);
+    expect(imported.shapes.map(comparable)).toEqual(shapes.map(comparable));
+  });
+
+  it("keeps the holes of a polygon", () => {
+    const [polygon] = roundTrip(format).shapes;
+    expect(polygon.holes).toHaveLength(2);
+  });
+
+  it("keeps the parameters of an ellipse, not only its outline", () => {
+    const [, imported] = roundTrip(format).shapes;
+    expect(imported.type).toBe("ellipse");
+    expect(imported.ellipse?.rotation).toBe(ellipse.rotation);
+    expect(imported.ellipse?.center.x).toBeCloseTo(ellipse.center.x, 6);
+    expect(imported.ellipse?.ry).toBeCloseTo(ellipse.ry, 6);
+  });
+
+  it("keeps the crossing direction of a flipped tripwire", () => {
+    const [, , line] = roundTrip(format).shapes;
+    expect(line.type).toBe("line");
+    expect(line.flipped).toBe(true);
+  });
+
+  it("gives imported shapes fresh ids", () => {
+    const ids = roundTrip(format).shapes.map((shape) => shape.id);
+    expect(new Set(ids).size).toBe(shapes.length);
+    for (const shape of shapes) expect(ids).not.toContain(shape.id);
+  });
+});
+
+describe("pascal voc round trip", () => {
+  it("reduces polygons to their bounding box and drops their holes", () => {
+    const [box] = roundTrip("voc").shapes;
+    expect(box).toMatchObject({ type: "rectangle", name: withHoles.name, category: withHoles.category });
+    expect(box.holes).toBeUndefined();
+    expect(roundedBounds(box.points)).toEqual(roundedBounds(withHoles.points));
+  });
+
+  it("restores ellipses and flipped tripwires from their extra elements", () => {
+    const [, imported, line] = roundTrip("voc").shapes;
+    const expected = shapes.map(comparable);
+    const [restoredOval, restoredLine] = [imported, line].map(comparable);
+    expect(restoredOval).toMatchObject({ type: "ellipse", ellipse: expected[1].ellipse, points: expected[1].points });
+    expect(restoredLine).toMatchObject({ type: "line", flipped: true, points: expected[2].points });
+  });
+
+  it("gives imported shapes fresh ids", () => {
+    const ids = roundTrip("voc").shapes.map((shape) => shape.id);
+    for (const shape of shapes) expect(ids).not.toContain(shape.id);
+  });
+});
+
+describe("geojson import", () => {
+  const collection = (geometry: { type: string; coordinates: unknown }) =>
+    JSON.stringify({ type: "FeatureCollection", features: [{ type: "Feature", geometry, properties: null }] });
+
+  it.each([
+    { type: "Polygon", coordinates: "not an array" },
+    { type: "Polygon", coordinates: [[["1", "2"], ["3", "4"], ["5", "6"]]] },
+    { type: "LineString", coordinates: [[1, 2], 3] },
+  ])("rejects malformed $type coordinates with a format error", (geometry) => {
+    expect(() => importRegions(collection(geometry), frame)).toThrow(RegionFormatError);
+  });
+});
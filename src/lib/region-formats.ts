@@ -0,0 +1,645 @@
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { getBounds, getCrossingDirection, polygonArea, rotateVector } from "@/lib/geometry";
+import {
+  REGION_CATEGORIES,
+  ellipseToPoints,
+  fromPixelEllipse,
+  getDefaultMetadata,
+  shapeSchema,
+  toNormalizedPoint,
+  toPixelEllipse,
+  toPixelPoint,
+  type EllipseParams,
+  type FrameSize,
+  type Point,
+  type RegionCategory,
+  type Shape,
+} from "@/lib/regions";
+
+/**
+ * Converters between canvas shapes and common annotation formats.
+ *
+ * Exports use source-pixel coordinates of the video frame, as the ML tooling
+ * expects; imports normalize them back using the image size stored in the
+ * file, falling back to the current frame when the file has none.
+ *
+ * Tripwires (`line` shapes) are open paths and carry their crossing
+ * direction as a unit vector in source pixels. Circles and ellipses are
+ * written as their polygon approximation plus their parametric values, and
+ * rotated rectangles as their oriented corners plus the `rotation` angle
+ * (radians, clockwise on screen).
+ */
+
+export type RegionFormat = "geojson" | "coco" | "voc";
+
+export const REGION_FORMATS: Record<
+  RegionFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  geojson: { label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+  coco: { label: "COCO", extension: "json", mimeType: "application/json" },
+  voc: { label: "Pascal VOC", extension: "xml", mimeType: "application/xml" },
+};
+
+/** Result of reading an annotation file */
+export type ImportedRegions = { shapes: Shape[]; frame: FrameSize };
+
+/** Thrown when a file can't be read as the requested format */
+export class RegionFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegionFormatError";
+  }
+}
+
+const CATEGORY_IDS = Object.keys(REGION_CATEGORIES) as RegionCategory[];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const isCategory = (value: unknown): value is RegionCategory =>
+  typeof value === "string" && value in REGION_CATEGORIES;
+
+/** Open ring (no repeated closing point) in source pixels */
+const openPixelRing = (ring: Point[], frame: FrameSize): Point[] => {
+  const points = ring.map((p) => toPixelPoint(p, frame));
+  const [first, last] = [points[0], points[points.length - 1]];
+  const isClosed = points.length > 1 && first.x === last.x && first.y === last.y;
+  return (isClosed ? points.slice(0, -1) : points).map((p) => ({ x: round(p.x), y: round(p.y) }));
+};
+
+/** Outline of an area shape as an open ring in source pixels */
+const toPixelRing = (shape: Shape, frame: FrameSize): Point[] => openPixelRing(shape.points, frame);
+
+/** Holes of an area shape as open rings in source pixels */
+const toPixelHoles = (shape: Shape, frame: FrameSize): Point[][] =>
+  (shape.holes ?? []).map((hole) => openPixelRing(hole, frame));
+
+/** Open path of a tripwire in source pixels */
+const toPixelPath = (shape: Shape, frame: FrameSize): Point[] =>
+  shape.points.map((p) => toPixelPoint(p, frame)).map((p) => ({ x: round(p.x), y: round(p.y) }));
+
+/** Unit crossing direction of a tripwire in source pixels, rounded for export */
+const toDirection = (shape: Shape, frame: FrameSize): [number, number] => {
+  const direction = getCrossingDirection(
+    shape.points.map((p) => toPixelPoint(p, frame)),
+    shape.flipped
+  );
+  return [Math.round(direction.x * 1e4) / 1e4, Math.round(direction.y * 1e4) / 1e4];
+};
+
+/** Parametric circle/ellipse in source pixels, as written to files */
+type EllipseProps = { cx: number; cy: number; rx: number; ry: number; rotation: number };
+
+const toEllipseProps = (ellipse: EllipseParams, frame: FrameSize): EllipseProps => {
+  const { center, rx, ry, rotation } = toPixelEllipse(ellipse, frame);
+  return { cx: round(center.x), cy: round(center.y), rx: round(rx), ry: round(ry), rotation };
+};
+
+/** Circle/ellipse geometry read back from a file, or undefined when absent or malformed */
+const fromEllipseProps = (
+  value: unknown,
+  frame: FrameSize
+): Pick<Shape, "ellipse" | "points"> | undefined => {
+  const props = value as Partial<EllipseProps> | null | undefined;
+  const numbers = [props?.cx, props?.cy, props?.rx, props?.ry, props?.rotation ?? 0].map(Number);
+  if (numbers.some((n) => !Number.isFinite(n))) return undefined;
+  const [cx, cy, rx, ry, rotation] = numbers;
+  const ellipse = fromPixelEllipse({ center: { x: cx, y: cy }, rx, ry, rotation }, frame);
+  return { ellipse, points: ellipseToPoints(ellipse, frame) };
+};
+
+const isEllipseType = (value: unknown): value is "circle" | "ellipse" =>
+  value === "circle" || value === "ellipse";
+
+const isRectType = (value: unknown): value is "rectangle" | "square" =>
+  value === "rectangle" || value === "square";
+
+/** Rotation of a rectangle read from a file, kept only when it is a finite number */
+const readRotation = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value !== 0 ? { rotation: value } : {};
+
+/** Normalized open path from pixel points */
+const fromPixelPath = (points: Point[], frame: FrameSize): Point[] =>
+  points.map((p) => toNormalizedPoint(p, frame));
+
+/** Normalized closed ring from pixel points, as the canvas stores them */
+const fromPixelRing = (points: Point[], frame: FrameSize): Point[] => {
+  const ring = points.map((p) => toNormalizedPoint(p, frame));
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first.x === last.x && first.y === last.y ? ring : [...ring, first];
+};
+
+/**
+ * Fill in defaults and validate a shape read from a file. Ids in the file are
+ * ignored: every shape gets a fresh one, so importing another camera's export
+ * can't overwrite that camera's stored regions.
+ */
+const toShape = (shape: Partial<Shape> & Pick<Shape, "points">, index: number): Shape => {
+  const parsed = shapeSchema.safeParse({
+    ...getDefaultMetadata(index + 1),
+    type: "polygon",
+    ...shape,
+    id: uuidv4(),
+  });
+  if (!parsed.success) {
+    throw new RegionFormatError(`Region ${index + 1} is invalid: ${parsed.error.issues[0].message}`);
+  }
+  return parsed.data;
+};
+
+const readFrame = (width: unknown, height: unknown, fallback: FrameSize): FrameSize => {
+  const w = Number(width);
+  const h = Number(height);
+  return w > 0 && h > 0 ? { width: w, height: h } : fallback;
+};
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+type GeoJSONFeature = {
+  type: "Feature";
+  id?: string;
+  geometry: { type: string; coordinates: unknown };
+  properties: Record<string, unknown> | null;
+};
+
+// A position is [x, y], possibly followed by an altitude that is ignored
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+const lineStringSchema = z.array(positionSchema).min(2);
+const polygonSchema = z.array(z.array(positionSchema).min(3)).min(1);
+
+type GeoJSONFeatureCollection = {
+  type: "FeatureCollection";
+  // Foreign member recording the image the pixel coordinates refer to
+  frame?: FrameSize;
+  features: GeoJSONFeature[];
+};
+
+/**
+ * Export shapes as a GeoJSON FeatureCollection in image pixels: Polygons for
+ * areas (holes as interior rings, circles and ellipses adding an `ellipse`
+ * property), LineStrings with a `direction` property for tripwires
+ */
+export const toGeoJSON = (shapes: Shape[], frame: FrameSize): GeoJSONFeatureCollection => ({
+  type: "FeatureCollection",
+  frame,
+  features: shapes.map((shape) => {
+    const properties = {
+      name: shape.name,
+      category: shape.category,
+      color: shape.color,
+      tags: shape.tags,
+      shapeType: shape.type,
+    };
+    if (shape.type === "line") {
+      return {
+        type: "Feature",
+        id: shape.id,
+        geometry: {
+          type: "LineString",
+          coordinates: toPixelPath(shape, frame).map((p) => [p.x, p.y]),
+        },
+        properties: { ...properties, direction: toDirection(shape, frame), flipped: !!shape.flipped },
+      };
+    }
+    // GeoJSON rings repeat their first position at the end
+    const rings = [toPixelRing(shape, frame), ...toPixelHoles(shape, frame)].map((ring) => [
+      ...ring.map((p) => [p.x, p.y]),
+      [ring[0].x, ring[0].y],
+    ]);
+    return {
+      type: "Feature",
+      id: shape.id,
+      geometry: { type: "Polygon", coordinates: rings },
+      properties: {
+        ...properties,
+        ...(shape.ellipse && { ellipse: toEllipseProps(shape.ellipse, frame) }),
+        ...(isRectType(shape.type) && { rotation: shape.rotation ?? 0 }),
+      },
+    };
+  }),
+});
+
+/** Read Polygon and LineString features of a GeoJSON FeatureCollection back into shapes */
+export const fromGeoJSON = (data: unknown, fallbackFrame: FrameSize): ImportedRegions => {
+  const collection = data as Partial<GeoJSONFeatureCollection> | null;
+  if (collection?.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new RegionFormatError("Not a GeoJSON FeatureCollection.");
+  }
+  const frame = readFrame(collection.frame?.width, collection.frame?.height, fallbackFrame);
+
+  const shapes = collection.features
+    .filter((feature) => ["Polygon", "LineString"].includes(feature?.geometry?.type))
+    .map((feature, index) => {
+      const props = feature.properties ?? {};
+      const isLine = feature.geometry.type === "LineString";
+      // A LineString's coordinates are the path itself, a Polygon's are the outer ring and its holes
+      const coordinates = isLine
+        ? lineStringSchema.transform((path) => [path]).safeParse(feature.geometry.coordinates)
+        : polygonSchema.safeParse(feature.geometry.coordinates);
+      if (!coordinates.success) {
+        throw new RegionFormatError(`Feature ${index + 1} has invalid ${feature.geometry.type} coordinates.`);
+      }
+      const [outer, ...holes] = coordinates.data;
+      const pixels = outer.map(([x, y]) => ({ x, y }));
+      const ellipse = isEllipseType(props.shapeType)
+        ? fromEllipseProps(props.ellipse, frame)
+        : undefined;
+      return toShape(
+        {
+          ...(typeof props.name === "string" && { name: props.name }),
+          ...(isCategory(props.category) && { category: props.category }),
+          ...(typeof props.color === "string" && { color: props.color }),
+          ...(Array.isArray(props.tags) && { tags: props.tags as string[] }),
+          ...(isLine
+            ? { type: "line" as const, flipped: props.flipped === true }
+            : isRectType(props.shapeType) && {
+                type: props.shapeType,
+                ...readRotation(props.rotation),
+              }),
+          points: isLine ? fromPixelPath(pixels, frame) : fromPixelRing(pixels, frame),
+          ...(holes.length > 0 && {
+            type: "polygon" as const,
+            holes: holes.map((hole) => fromPixelRing(hole.map(([x, y]) => ({ x, y })), frame)),
+          }),
+          ...(ellipse && { type: props.shapeType as "circle" | "ellipse", ...ellipse }),
+        },
+        index
+      );
+    });
+  return { shapes, frame };
+};
+
+// ---------------------------------------------------------------------------
+// COCO
+// ---------------------------------------------------------------------------
+
+type CocoAnnotation = {
+  id: number;
+  image_id: number;
+  category_id: number;
+  segmentation: number[][];
+  area: number;
+  bbox: [number, number, number, number];
+  iscrowd: 0 | 1;
+  attributes?: Partial<Pick<Shape, "name" | "color" | "tags" | "flipped">> & {
+    regionId?: string;
+    shapeType?: Shape["type"];
+    // Tripwires only: the flattened path and its crossing direction
+    path?: number[];
+    direction?: [number, number];
+    // Circles and ellipses only
+    ellipse?: EllipseProps;
+    // Rectangles only
+    rotation?: number;
+    // Polygons with holes only: each hole flattened like a segmentation
+    holes?: number[][];
+  };
+};
+
+type CocoDataset = {
+  info: { description: string; date_created: string };
+  images: { id: number; width: number; height: number; file_name: string }[];
+  categories: { id: number; name: string; supercategory: string }[];
+  annotations: CocoAnnotation[];
+};
+
+/**
+ * Export shapes as a single-image COCO dataset with polygon segmentations.
+ * COCO has no open paths, so tripwires get an empty segmentation and keep
+ * their path and direction in `attributes`. Polygon segmentations can't
+ * have holes either: they only count against the `area`, and are kept in
+ * `attributes`.
+ */
+export const toCoco = (shapes: Shape[], frame: FrameSize, fileName = "frame.png"): CocoDataset => ({
+  info: { description: "Canvas regions", date_created: new Date().toISOString() },
+  images: [{ id: 1, width: frame.width, height: frame.height, file_name: fileName }],
+  categories: CATEGORY_IDS.map((category, index) => ({
+    id: index + 1,
+    name: category,
+    supercategory: "region",
+  })),
+  annotations: shapes.map((shape, index) => {
+    const isLine = shape.type === "line";
+    const ring = isLine ? toPixelPath(shape, frame) : toPixelRing(shape, frame);
+    const holes = toPixelHoles(shape, frame);
+    const { minX, minY, maxX, maxY } = getBounds(ring);
+    return {
+      id: index + 1,
+      image_id: 1,
+      category_id: CATEGORY_IDS.indexOf(shape.category) + 1,
+      segmentation: isLine ? [] : [ring.flatMap((p) => [p.x, p.y])],
+      area: isLine
+        ? 0
+        : round(holes.reduce((area, hole) => area - polygonArea(hole), polygonArea(ring))),
+      bbox: [minX, minY, round(maxX - minX), round(maxY - minY)],
+      iscrowd: 0,
+      attributes: {
+        regionId: shape.id,
+        name: shape.name,
+        color: shape.color,
+        tags: shape.tags,
+        shapeType: shape.type,
+        ...(isLine && {
+          path: ring.flatMap((p) => [p.x, p.y]),
+          direction: toDirection(shape, frame),
+          flipped: !!shape.flipped,
+        }),
+        ...(shape.ellipse && { ellipse: toEllipseProps(shape.ellipse, frame) }),
+        ...(isRectType(shape.type) && { rotation: shape.rotation ?? 0 }),
+        ...(holes.length > 0 && { holes: holes.map((hole) => hole.flatMap((p) => [p.x, p.y])) }),
+      },
+    };
+  }),
+});
+
+/** Read the annotations of the first image in a COCO dataset back into shapes */
+export const fromCoco = (data: unknown, fallbackFrame: FrameSize): ImportedRegions => {
+  const dataset = data as Partial<CocoDataset> | null;
+  if (!dataset || !Array.isArray(dataset.annotations) || !Array.isArray(dataset.images)) {
+    throw new RegionFormatError("Not a COCO dataset: missing images or annotations.");
+  }
+  const image = dataset.images[0];
+  const frame = readFrame(image?.width, image?.height, fallbackFrame);
+  const categoryNames = new Map((dataset.categories ?? []).map((c) => [c.id, c.name]));
+
+  const shapes = dataset.annotations
+    .filter((annotation) => !image || annotation.image_id === image.id)
+    .map((annotation, index) => {
+      const flat = annotation.segmentation?.[0];
+      const [x, y, w, h] = annotation.bbox ?? [0, 0, 0, 0];
+      // Fall back to the bounding box when there is no polygon segmentation
+      const pixels: Point[] =
+        Array.isArray(flat) && flat.length >= 6
+          ? Array.from({ length: flat.length / 2 }, (_, i) => ({ x: flat[2 * i], y: flat[2 * i + 1] }))
+          : [
+              { x, y },
+              { x: x + w, y },
+              { x: x + w, y: y + h },
+              { x, y: y + h },
+            ];
+      const category = categoryNames.get(annotation.category_id);
+      const { name, color, tags, shapeType, path, flipped, holes } =
+        annotation.attributes ?? {};
+      const isLine = shapeType === "line" && Array.isArray(path) && path.length >= 4;
+      const ellipse = isEllipseType(shapeType)
+        ? fromEllipseProps(annotation.attributes?.ellipse, frame)
+        : undefined;
+      return toShape(
+        {
+          ...(name && { name }),
+          ...(isCategory(category) ? { category } : { category: "other" }),
+          ...(color && { color }),
+          ...(tags && { tags }),
+          type: isLine
+            ? "line"
+            : shapeType && shapeType !== "line"
+              ? shapeType
+              : Array.isArray(flat) && flat.length >= 6
+                ? "polygon"
+                : "rectangle",
+          ...(isLine && { flipped: flipped === true }),
+          ...(isRectType(shapeType) && readRotation(annotation.attributes?.rotation)),
+          points: isLine
+            ? fromPixelPath(
+                Array.from({ length: path.length / 2 }, (_, i) => ({ x: path[2 * i], y: path[2 * i + 1] })),
+                frame
+              )
+            : fromPixelRing(pixels, frame),
+          ...(shapeType === "polygon" &&
+            Array.isArray(holes) && {
+              holes: holes
+                .filter((hole) => Array.isArray(hole) && hole.length >= 6)
+                .map((hole) =>
+                  fromPixelRing(
+                    Array.from({ length: hole.length / 2 }, (_, i) => ({ x: hole[2 * i], y: hole[2 * i + 1] })),
+                    frame
+                  )
+                ),
+            }),
+          ...ellipse,
+        },
+        index
+      );
+    });
+  return { shapes, frame };
+};
+
+// ---------------------------------------------------------------------------
+// Pascal VOC
+// ---------------------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, (c) => `&${{ "<": "lt", ">": "gt", "&": "amp", "'": "apos", '"': "quot" }[c]};`);
+
+/**
+ * Export shapes as a Pascal VOC annotation. VOC only knows bounding boxes,
+ * so polygons are reduced to their axis-aligned bounds. Rotated rectangles
+ * add a roLabelImg `robndbox`, tripwires their path and crossing direction,
+ * circles and ellipses their parameters, as extra elements.
+ */
+export const toPascalVoc = (shapes: Shape[], frame: FrameSize, fileName = "frame.png"): string => {
+  const objects = shapes.map((shape) => {
+    const isLine = shape.type === "line";
+    const path = isLine ? toPixelPath(shape, frame) : toPixelRing(shape, frame);
+    const { minX, minY, maxX, maxY } = getBounds(path);
+    const [dx, dy] = isLine ? toDirection(shape, frame) : [0, 0];
+    const ellipse = shape.ellipse && toEllipseProps(shape.ellipse, frame);
+    const ellipseElements = ellipse
+      ? [
+          `    <shape_type>${shape.type}</shape_type>`,
+          "    <ellipse>",
+          ...Object.entries(ellipse).map(([key, value]) => `      <${key}>${value}</${key}>`),
+          "    </ellipse>",
+        ]
+      : [];
+    // Rotated rectangles follow roLabelImg: center, size and angle in radians
+    const [tl, tr, br, bl] = path;
+    const robndboxElements =
+      isRectType(shape.type) && shape.rotation
+        ? [
+            "    <robndbox>",
+            `      <cx>${round((tl.x + br.x) / 2)}</cx>`,
+            `      <cy>${round((tl.y + br.y) / 2)}</cy>`,
+            `      <w>${round(Math.hypot(tr.x - tl.x, tr.y - tl.y))}</w>`,
+            `      <h>${round(Math.hypot(bl.x - tl.x, bl.y - tl.y))}</h>`,
+            `      <angle>${shape.rotation}</angle>`,
+            "    </robndbox>",
+          ]
+        : [];
+    const lineElements = isLine
+      ? [
+          "    <polyline>",
+          ...path.map((p) => `      <pt><x>${p.x}</x><y>${p.y}</y></pt>`),
+          "    </polyline>",
+          `    <direction><x>${dx}</x><y>${dy}</y></direction>`,
+          `    <flipped>${shape.flipped ? 1 : 0}</flipped>`,
+        ]
+      : [];
+    return [
+      "  <object>",
+      `    <name>${escapeXml(shape.category)}</name>`,
+      `    <region_name>${escapeXml(shape.name)}</region_name>`,
+      "    <pose>Unspecified</pose>",
+      "    <truncated>0</truncated>",
+      "    <difficult>0</difficult>",
+      "    <bndbox>",
+      `      <xmin>${Math.round(minX)}</xmin>`,
+      `      <ymin>${Math.round(minY)}</ymin>`,
+      `      <xmax>${Math.round(maxX)}</xmax>`,
+      `      <ymax>${Math.round(maxY)}</ymax>`,
+      "    </bndbox>",
+      ...robndboxElements,
+      ...lineElements,
+      ...ellipseElements,
+      "  </object>",
+    ].join("\n");
+  });
+
+  return [
+    "<annotation>",
+    `  <filename>${escapeXml(fileName)}</filename>`,
+    "  <size>",
+    `    <width>${frame.width}</width>`,
+    `    <height>${frame.height}</height>`,
+    "    <depth>3</depth>",
+    "  </size>",
+    ...objects,
+    "</annotation>",
+    "",
+  ].join("\n");
+};
+
+/**
+ * Read the bounding boxes of a Pascal VOC annotation back into rectangles
+ * (and the extra elements back into tripwires, circles and ellipses)
+ */
+export const fromPascalVoc = (xml: string, fallbackFrame: FrameSize): ImportedRegions => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.querySelector("annotation");
+  if (doc.querySelector("parsererror") || !root) {
+    throw new RegionFormatError("Not a Pascal VOC annotation.");
+  }
+  const text = (parent: Element, selector: string) =>
+    parent.querySelector(selector)?.textContent?.trim() ?? "";
+
+  const frame = readFrame(text(root, "size > width"), text(root, "size > height"), fallbackFrame);
+
+  const shapes = Array.from(root.querySelectorAll(":scope > object")).map((object, index) => {
+    const [xmin, ymin, xmax, ymax] = ["xmin", "ymin", "xmax", "ymax"].map((tag) =>
+      Number(text(object, `bndbox > ${tag}`))
+    );
+    const category = text(object, "name");
+    const name = text(object, "region_name");
+    const polyline = Array.from(object.querySelectorAll("polyline > pt")).map((pt) => ({
+      x: Number(text(pt, "x")),
+      y: Number(text(pt, "y")),
+    }));
+    const shapeType = text(object, "shape_type");
+    const ellipse = isEllipseType(shapeType)
+      ? fromEllipseProps(
+          Object.fromEntries(
+            ["cx", "cy", "rx", "ry", "rotation"].map((key) => [key, text(object, `ellipse > ${key}`)])
+          ),
+          frame
+        )
+      : undefined;
+    if (ellipse) {
+      return toShape(
+        {
+          ...(name && { name }),
+          ...(isCategory(category) ? { category } : { category: "other" }),
+          type: shapeType as "circle" | "ellipse",
+          ...ellipse,
+        },
+        index
+      );
+    }
+    const robndbox = ["cx", "cy", "w", "h", "angle"].map((tag) => text(object, `robndbox > ${tag}`));
+    if (robndbox.every((value) => value !== "" && Number.isFinite(Number(value)))) {
+      const [cx, cy, w, h, angle] = robndbox.map(Number);
+      const corners = [
+        { x: -w / 2, y: -h / 2 },
+        { x: w / 2, y: -h / 2 },
+        { x: w / 2, y: h / 2 },
+        { x: -w / 2, y: h / 2 },
+      ].map((offset) => {
+        const v = rotateVector(offset, angle);
+        return { x: cx + v.x, y: cy + v.y };
+      });
+      return toShape(
+        {
+          ...(name && { name }),
+          ...(isCategory(category) ? { category } : { category: "other" }),
+          type: "rectangle",
+          ...readRotation(angle),
+          points: fromPixelRing(corners, frame),
+        },
+        index
+      );
+    }
+    if (polyline.length >= 2) {
+      return toShape(
+        {
+          ...(name && { name }),
+          ...(isCategory(category) ? { category } : { category: "other" }),
+          type: "line",
+          flipped: text(object, "flipped") === "1",
+          points: fromPixelPath(polyline, frame),
+        },
+        index
+      );
+    }
+    return toShape(
+      {
+        ...(name && { name }),
+        ...(isCategory(category) ? { category } : { category: "other" }),
+        type: "rectangle",
+        points: fromPixelRing(
+          [
+            { x: xmin, y: ymin },
+            { x: xmax, y: ymin },
+            { x: xmax, y: ymax },
+            { x: xmin, y: ymax },
+          ],
+          frame
+        ),
+      },
+      index
+    );
+  });
+  return { shapes, frame };
+};
+
+// ---------------------------------------------------------------------------
+
+/** Serialize shapes in the given format */
+export const exportRegions = (shapes: Shape[], frame: FrameSize, format: RegionFormat): string => {
+  switch (format) {
+    case "geojson":
+      return JSON.stringify(toGeoJSON(shapes, frame), null, 2);
+    case "coco":
+      return JSON.stringify(toCoco(shapes, frame), null, 2);
+    case "voc":
+      return toPascalVoc(shapes, frame);
+  }
+};
+
+/** Detect the format of an annotation file from its contents and parse it */
+export const importRegions = (content: string, fallbackFrame: FrameSize): ImportedRegions => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("<")) return fromPascalVoc(trimmed, fallbackFrame);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    throw new RegionFormatError("The file is neither JSON nor XML.");
+  }
+  if ((data as { type?: unknown })?.type === "FeatureCollection") {
+    return fromGeoJSON(data, fallbackFrame);
+  }
+  return fromCoco(data, fallbackFrame);
+};
@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RegionPayload } from "@/lib/regions";
+
+// The store keeps its file under `data/` of the working directory, so point that at a scratch folder
+const root = mkdtempSync(path.join(tmpdir(), "region-store-"));
+vi.spyOn(process, "cwd").mockReturnValue(root);
+
+let regionStore: typeof import("@/lib/region-store");
+
+beforeAll(async () => {
+  regionStore = await import("@/lib/region-store");
+});
+
+beforeEach(() => {
+  rmSync(path.join(root, "data"), { recursive: true, force: true });
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const payload = (id: string, name = id): RegionPayload => ({
+  id,
+  name,
+  category: "entry-zone",
+  color: "#22c55e",
+  tags: [],
+  type: "rectangle",
+  points: [
+    { x: 0.1, y: 0.1 },
+    { x: 0.2, y: 0.1 },
+    { x: 0.2, y: 0.2 },
+    { x: 0.1, y: 0.2 },
+    { x: 0.1, y: 0.1 },
+  ],
+  frame: { width: 100, height: 100 },
+  pixelPoints: [
+    { x: 10, y: 10 },
+    { x: 20, y: 10 },
+    { x: 20, y: 20 },
+    { x: 10, y: 20 },
+    { x: 10, y: 10 },
+  ],
+});
+
+describe("region store across cameras", () => {
+  it("refuses a replace that reuses another camera's ids and leaves both cameras as they were", async () => {
+    await regionStore.replaceRegions("a", [payload("shared", "A's region")]);
+    await regionStore.replaceRegions("b", [payload("b-1")]);
+
+    const result = await regionStore.replaceRegions("b", [payload("shared", "B's copy")]);
+
+    expect(result).toEqual({ status: "conflict", ids: ["shared"] });
+    expect((await regionStore.listRegions("a")).map((region) => region.name)).toEqual(["A's region"]);
+    expect((await regionStore.listRegions("b")).map((region) => region.id)).toEqual(["b-1"]);
+  });
+
+  it("refuses an upsert that reuses another camera's ids", async () => {
+    await regionStore.replaceRegions("a", [payload("shared", "A's region")]);
+
+    const result = await regionStore.upsertRegions("b", [payload("shared", "B's copy"), payload("b-1")]);
+
+    expect(result).toEqual({ status: "conflict", ids: ["shared"] });
+    expect(await regionStore.listRegions("b")).toEqual([]);
+    expect((await regionStore.listRegions("a"))[0]).toMatchObject({ cameraId: "a", name: "A's region" });
+  });
+
+  it("replaces only the given camera's regions", async () => {
+    await regionStore.replaceRegions("a", [payload("a-1"), payload("a-2")]);
+    await regionStore.replaceRegions("b", [payload("b-1")]);
+
+    const result = await regionStore.replaceRegions("a", [payload("a-2", "Renamed")]);
+
+    expect(result.status).toBe("saved");
+    expect((await regionStore.listRegions("a")).map((region) => region.name)).toEqual(["Renamed"]);
+    expect((await regionStore.listRegions("b")).map((region) => region.id)).toEqual(["b-1"]);
+  });
+});
@@ -0,0 +1,124 @@
+import { DEFAULT_CAMERA_ID } from "@/lib/cameras";
+import { createJsonStore } from "@/lib/json-store";
+import type { Region, RegionPayload } from "@/lib/regions";
+
+/**
+ * File-backed store for drawn regions, in `data/regions.json`.
+ *
+ * Every region belongs to a camera; the collection operations below are
+ * scoped to one camera so cameras never overwrite each other's regions.
+ */
+const store = createJsonStore<Region>("regions.json");
+
+// Regions saved before cameras existed belong to the default camera
+const cameraOf = (region: Region) => region.cameraId ?? DEFAULT_CAMERA_ID;
+
+const toRegion = (
+  cameraId: string,
+  shape: RegionPayload,
+  existing?: Region,
+  snapshotId?: string
+): Region => {
+  const now = new Date().toISOString();
+  return {
+    ...shape,
+    cameraId,
+    // A region keeps its last reference frame until a new one is submitted
+    snapshotId: snapshotId ?? existing?.snapshotId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+/** List the regions of one camera, or of every camera */
+export async function listRegions(cameraId?: string): Promise<Region[]> {
+  const regions = (await store.list()).map((region) => ({ ...region, cameraId: cameraOf(region) }));
+  return cameraId ? regions.filter((region) => region.cameraId === cameraId) : regions;
+}
+
+export async function getRegion(id: string): Promise<Region | null> {
+  const regions = await listRegions();
+  return regions.find((region) => region.id === id) ?? null;
+}
+
+/**
+ * Outcome of writing a camera's regions. Ids are unique across cameras, so a
+ * write reusing ids of another camera's regions is refused with those ids.
+ */
+export type RegionSaveResult =
+  | { status: "saved"; regions: Region[] }
+  | { status: "conflict"; ids: string[] };
+
+/** Ids among the shapes that belong to regions of another camera */
+const findForeignIds = (regions: Region[], cameraId: string, shapes: RegionPayload[]) => {
+  const foreign = new Set(
+    regions.filter((region) => cameraOf(region) !== cameraId).map((region) => region.id)
+  );
+  return shapes.map((shape) => shape.id).filter((id) => foreign.has(id));
+};
+
+/** Insert new regions on a camera, or update the camera's regions whose id is already stored */
+export function upsertRegions(
+  cameraId: string,
+  shapes: RegionPayload[],
+  snapshotId?: string
+): Promise<RegionSaveResult> {
+  return store.mutate<RegionSaveResult>((regions) => {
+    const ids = findForeignIds(regions, cameraId, shapes);
+    if (ids.length > 0) return { items: regions, result: { status: "conflict", ids } };
+    const next = [...regions];
+    const saved = shapes.map((shape) => {
+      const index = next.findIndex((region) => region.id === shape.id);
+      const region = toRegion(cameraId, shape, index >= 0 ? next[index] : undefined, snapshotId);
+      if (index >= 0) next[index] = region;
+      else next.push(region);
+      return region;
+    });
+    return { items: next, result: { status: "saved", regions: saved } };
+  });
+}
+
+/** Replace a camera's stored set with the given shapes; other cameras are left alone */
+export function replaceRegions(
+  cameraId: string,
+  shapes: RegionPayload[],
+  snapshotId?: string
+): Promise<RegionSaveResult> {
+  return store.mutate<RegionSaveResult>((regions) => {
+    const ids = findForeignIds(regions, cameraId, shapes);
+    if (ids.length > 0) return { items: regions, result: { status: "conflict", ids } };
+    const own = regions.filter((region) => cameraOf(region) === cameraId);
+    const others = regions.filter((region) => cameraOf(region) !== cameraId);
+    const saved = shapes.map((shape) =>
+      toRegion(cameraId, shape, own.find((region) => region.id === shape.id), snapshotId)
+    );
+    return { items: [...others, ...saved], result: { status: "saved", regions: saved } };
+  });
+}
+
+/** Update a single region; resolves to null when the id is unknown */
+export function updateRegion(id: string, shape: Omit<RegionPayload, "id">): Promise<Region | null> {
+  return store.mutate((regions) => {
+    const index = regions.findIndex((region) => region.id === id);
+    if (index < 0) return { items: regions, result: null };
+    const next = [...regions];
+    next[index] = toRegion(cameraOf(regions[index]), { ...shape, id }, regions[index]);
+    return { items: next, result: next[index] };
+  });
+}
+
+/** Delete a single region; resolves to false when the id is unknown */
+export function deleteRegion(id: string): Promise<boolean> {
+  return store.mutate((regions) => {
+    const next = regions.filter((region) => region.id !== id);
+    return { items: next, result: next.length !== regions.length };
+  });
+}
+
+/** Remove every region of a camera */
+export function clearRegions(cameraId: string): Promise<void> {
+  return store.mutate((regions) => ({
+    items: regions.filter((region) => cameraOf(region) !== cameraId),
+    result: undefined,
+  }));
+}
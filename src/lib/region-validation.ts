@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { toPixelEllipse, toPixelPoint, type FrameSize, type Point, type Shape } from "@/lib/regions";
+import { getBounds, isPointInRings, isSelfIntersecting, polygonArea } from "@/lib/geometry";
+
+/**
+ * Checks every drawn shape against a configurable set of rules before the
+ * regions can be submitted. Measurements are in source (video) pixels.
+ */
+
+export type ValidationRules = {
+  // Smallest allowed area in source pixels²; 0 turns the rule off
+  minArea: number;
+  noSelfIntersection: boolean;
+  withinBounds: boolean;
+  // Largest overlap with another shape, as intersection over union in percent; 100 turns
+  // the rule off. Nested regions overlap little by this measure, duplicates almost fully.
+  maxOverlapPercent: number;
+  // Most vertices a polygon or tripwire may have; 0 turns the rule off
+  maxVertices: number;
+};
+
+export type ValidationRule = "minArea" | "selfIntersection" | "bounds" | "overlap" | "vertices";
+
+export type ValidationIssue = { shapeId: string; rule: ValidationRule; message: string };
+
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  minArea: 100,
+  noSelfIntersection: true,
+  withinBounds: true,
+  maxOverlapPercent: 90,
+  maxVertices: 100,
+};
+
+export const validationRulesSchema = z.object({
+  minArea: z.number().min(0),
+  noSelfIntersection: z.boolean(),
+  withinBounds: z.boolean(),
+  maxOverlapPercent: z.number().min(0).max(100),
+  maxVertices: z.number().int().min(0),
+});
+
+const VALIDATION_RULES_KEY = "drawing-canvas:validation-rules";
+
+/** Read the rules last configured on this device */
+export const loadValidationRules = (): ValidationRules => {
+  try {
+    const raw = window.localStorage.getItem(VALIDATION_RULES_KEY);
+    const parsed = validationRulesSchema.safeParse(raw ? JSON.parse(raw) : null);
+    return parsed.success ? parsed.data : DEFAULT_VALIDATION_RULES;
+  } catch {
+    return DEFAULT_VALIDATION_RULES;
+  }
+};
+
+export const saveValidationRules = (rules: ValidationRules) => {
+  try {
+    window.localStorage.setItem(VALIDATION_RULES_KEY, JSON.stringify(rules));
+  } catch {
+    // Storage full or unavailable; the rules then last until the page is reloaded
+  }
+};
+
+// Overlaps are estimated on a grid of this many samples per side of the shared bounding box
+const OVERLAP_SAMPLES = 32;
+// Slack for points that sit on the frame edge after rounding, in source pixels
+const BOUNDS_EPSILON = 0.5;
+
+/** Outline followed by any holes, in source pixels */
+const toPixelRings = (shape: Shape, frame: FrameSize): Point[][] =>
+  [shape.points, ...(shape.holes ?? [])].map((ring) => ring.map((p) => toPixelPoint(p, frame)));
+
+/**
+ * Area of a shape in source pixels², less its holes; circles and ellipses
+ * use their exact formula
+ */
+const getArea = (shape: Shape, frame: FrameSize): number => {
+  if (shape.ellipse) {
+    const { rx, ry } = toPixelEllipse(shape.ellipse, frame);
+    return Math.PI * rx * ry;
+  }
+  const [outline, ...holes] = toPixelRings(shape, frame);
+  return holes.reduce((area, hole) => area - polygonArea(hole), polygonArea(outline));
+};
+
+/**
+ * Area covered by both shapes (each an outline plus holes), estimated by
+ * sampling their shared bounding box; exact clipping is not needed to tell a
+ * duplicate from a touch.
+ */
+const getOverlapArea = (a: Point[][], b: Point[][]): number => {
+  const boundsA = getBounds(a[0]);
+  const boundsB = getBounds(b[0]);
+  const minX = Math.max(boundsA.minX, boundsB.minX);
+  const minY = Math.max(boundsA.minY, boundsB.minY);
+  const maxX = Math.min(boundsA.maxX, boundsB.maxX);
+  const maxY = Math.min(boundsA.maxY, boundsB.maxY);
+  if (minX >= maxX || minY >= maxY) return 0;
+
+  const stepX = (maxX - minX) / OVERLAP_SAMPLES;
+  const stepY = (maxY - minY) / OVERLAP_SAMPLES;
+  let inside = 0;
+  for (let i = 0; i < OVERLAP_SAMPLES; i++) {
+    for (let j = 0; j < OVERLAP_SAMPLES; j++) {
+      // Sample the middle of each cell
+      const p = { x: minX + (i + 0.5) * stepX, y: minY + (j + 0.5) * stepY };
+      if (isPointInRings(p, a) && isPointInRings(p, b)) inside++;
+    }
+  }
+  return (inside / OVERLAP_SAMPLES ** 2) * (maxX - minX) * (maxY - minY);
+};
+
+/**
+ * Check every shape against the rules. Tripwires have no area, so only the
+ * self-intersection, bounds and vertex rules apply to them.
+ *
+ * @returns One issue per broken rule per shape, in shape order.
+ */
+export const validateShapes = (
+  shapes: Shape[],
+  frame: FrameSize,
+  rules: ValidationRules
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const areas = shapes.map((shape) => (shape.type === "line" ? 0 : getArea(shape, frame)));
+  const rings = shapes.map((shape) => toPixelRings(shape, frame));
+  // Each pair is sampled once, whichever of the two asks first
+  const overlaps = new Map<string, number>();
+  const getOverlap = (i: number, j: number) => {
+    const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+    let area = overlaps.get(key);
+    if (area === undefined) {
+      area = getOverlapArea(rings[i], rings[j]);
+      overlaps.set(key, area);
+    }
+    return area;
+  };
+
+  shapes.forEach((shape, index) => {
+    const isLine = shape.type === "line";
+    const report = (rule: ValidationRule, message: string) =>
+      issues.push({ shapeId: shape.id, rule, message });
+
+    if (!isLine && rules.minArea > 0 && areas[index] < rules.minArea) {
+      report(
+        "minArea",
+        `Area of ${Math.round(areas[index])} px² is below the minimum of ${rules.minArea} px².`
+      );
+    }
+
+    // Rectangles and ellipses can't cross themselves; only hand-placed vertices can
+    if (rules.noSelfIntersection && (shape.type === "polygon" || isLine)) {
+      if (isSelfIntersecting(rings[index][0], !isLine)) {
+        report("selfIntersection", "Edges cross each other.");
+      }
+    }
+
+    if (rules.withinBounds) {
+      const { minX, minY, maxX, maxY } = getBounds(rings[index][0]);
+      if (
+        minX < -BOUNDS_EPSILON ||
+        minY < -BOUNDS_EPSILON ||
+        maxX > frame.width + BOUNDS_EPSILON ||
+        maxY > frame.height + BOUNDS_EPSILON
+      ) {
+        report("bounds", "Extends outside the video frame.");
+      }
+    }
+
+    if (rules.maxVertices > 0 && (shape.type === "polygon" || isLine)) {
+      // A ring repeats its first vertex at the end
+      const count = isLine ? shape.points.length : shape.points.length - 1;
+      if (count > rules.maxVertices) {
+        report("vertices", `Has ${count} vertices, more than the maximum of ${rules.maxVertices}.`);
+      }
+    }
+
+    if (!isLine && rules.maxOverlapPercent < 100 && areas[index] > 0) {
+      shapes.forEach((other, otherIndex) => {
+        if (otherIndex === index || other.type === "line") return;
+        const overlap = getOverlap(index, otherIndex);
+        const union = areas[index] + areas[otherIndex] - overlap;
+        const percent = union > 0 ? (overlap / union) * 100 : 0;
+        if (percent > rules.maxOverlapPercent) {
+          report(
+            "overlap",
+            `Overlaps "${other.name}" by ${Math.round(percent)}% (max ${rules.maxOverlapPercent}%).`
+          );
+        }
+      });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,237 @@
+import { z } from "zod";
+import { approximateEllipse, getCrossingDirection } from "@/lib/geometry";
+
+// Types shared by the drawing canvas and the regions Route Handlers
+export type DrawingMode = "rectangle" | "square" | "polygon" | "line" | "circle" | "ellipse" | "none";
+export type Point = { x: number; y: number };
+export type FrameSize = { width: number; height: number };
+
+/** What a region is used for by downstream services */
+export type RegionCategory = "entry-zone" | "exclusion" | "counting-line" | "other";
+
+/** Descriptive data attached to every region, edited in the side panel */
+export type RegionMetadata = {
+  name: string;
+  category: RegionCategory;
+  color: string; // #rrggbb
+  tags: string[];
+};
+
+/**
+ * Parametric geometry of a circle or ellipse. The center is normalized like
+ * any point; `rx` is a fraction of the frame width and `ry` of the frame
+ * height, and `rotation` (radians) turns the axes in source-pixel space.
+ */
+export type EllipseParams = { center: Point; rx: number; ry: number; rotation: number };
+
+/**
+ * A drawn region. `points` are normalized to 0..1 against the intrinsic
+ * size of the video frame, so they stay valid at any display resolution.
+ *
+ * Areas are closed rings (the last point repeats the first). A `line` is an
+ * open path used as a directional tripwire: crossings are counted towards
+ * the right-hand side of the drawing direction, or the left when `flipped`.
+ * Circles and ellipses keep their `ellipse` parameters, and `points` holds a
+ * polygon approximation for everything that works on point lists.
+ * Rectangles may be rotated: `points` are then the oriented corners
+ * (top-left, top-right, bottom-right, bottom-left of the unrotated box) and
+ * `rotation` their angle in radians, measured in source-pixel space.
+ * Polygons made by combining shapes may have `holes`: closed rings cut out of
+ * the area, filled with the even-odd rule together with `points`.
+ */
+export type Shape = RegionMetadata & {
+  id: string;
+  type: "rectangle" | "square" | "polygon" | "line" | "circle" | "ellipse" | "none";
+  points: Point[];
+  flipped?: boolean;
+  ellipse?: EllipseParams;
+  rotation?: number;
+  holes?: Point[][];
+};
+
+/** A shape as submitted: normalized points plus their source-pixel equivalents */
+export type RegionPayload = Shape & {
+  frame: FrameSize;
+  pixelPoints: Point[];
+  // Lines only: unit vector of the counted crossing direction, in source pixels
+  direction?: Point;
+  // Circles and ellipses only: the parametric geometry in source pixels
+  pixelEllipse?: EllipseParams;
+  // Polygons with holes only: the hole rings in source pixels
+  pixelHoles?: Point[][];
+};
+
+/** A shape as persisted by the regions store */
+export type Region = RegionPayload & {
+  // Camera the region was drawn on, see /api/cameras
+  cameraId: string;
+  // Video frame captured when the region was submitted, see /api/snapshots
+  snapshotId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A captured video frame, with and without the regions drawn on top */
+export type FrameSnapshot = {
+  frame: string; // image data URL
+  annotated: string; // image data URL
+  capturedAt: string;
+};
+
+export const REGION_CATEGORIES: Record<RegionCategory, { label: string; color: string }> = {
+  "entry-zone": { label: "Entry zone", color: "#22c55e" },
+  exclusion: { label: "Exclusion", color: "#ef4444" },
+  "counting-line": { label: "Counting line", color: "#3b82f6" },
+  other: { label: "Other", color: "#a855f7" },
+};
+
+/** Metadata given to a freshly drawn region, `index` being its 1-based position */
+export const getDefaultMetadata = (index: number, type?: Shape["type"]): RegionMetadata =>
+  type === "line"
+    ? {
+        name: `Tripwire ${index}`,
+        category: "counting-line",
+        color: REGION_CATEGORIES["counting-line"].color,
+        tags: [],
+      }
+    : {
+        name: `Region ${index}`,
+        category: "entry-zone",
+        color: REGION_CATEGORIES["entry-zone"].color,
+        tags: [],
+      };
+
+/** Canvas size used until the video reports its real resolution */
+export const DEFAULT_FRAME_SIZE: FrameSize = { width: 1065, height: 599 };
+
+/** Map a normalized point to pixel coordinates within a frame */
+export const toPixelPoint = (point: Point, frame: FrameSize): Point => ({
+  x: point.x * frame.width,
+  y: point.y * frame.height,
+});
+
+/** Map a pixel point within a frame to normalized 0..1 coordinates */
+export const toNormalizedPoint = (point: Point, frame: FrameSize): Point => ({
+  x: point.x / frame.width,
+  y: point.y / frame.height,
+});
+
+// Vertices of the polygon approximating a circle or ellipse
+const ELLIPSE_SEGMENTS = 64;
+
+/** Circle/ellipse parameters in source pixels */
+export const toPixelEllipse = (
+  { center, rx, ry, rotation }: EllipseParams,
+  frame: FrameSize
+): EllipseParams => ({
+  center: toPixelPoint(center, frame),
+  rx: rx * frame.width,
+  ry: ry * frame.height,
+  rotation,
+});
+
+/** Circle/ellipse parameters in source pixels, normalized against a frame */
+export const fromPixelEllipse = (
+  { center, rx, ry, rotation }: EllipseParams,
+  frame: FrameSize
+): EllipseParams => ({
+  center: toNormalizedPoint(center, frame),
+  rx: rx / frame.width,
+  ry: ry / frame.height,
+  rotation,
+});
+
+/** The normalized polygon ring approximating a circle or ellipse */
+export const ellipseToPoints = (ellipse: EllipseParams, frame: FrameSize): Point[] => {
+  const { center, rx, ry, rotation } = toPixelEllipse(ellipse, frame);
+  return approximateEllipse(center, rx, ry, rotation, ELLIPSE_SEGMENTS).map((p) =>
+    toNormalizedPoint(p, frame)
+  );
+};
+
+/** Move a shape by a normalized offset, parametric geometry and holes included */
+export const translateShape = (shape: Shape, dx: number, dy: number): Shape => ({
+  ...shape,
+  points: shape.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+  ...(shape.holes && {
+    holes: shape.holes.map((hole) => hole.map((p) => ({ x: p.x + dx, y: p.y + dy }))),
+  }),
+  ...(shape.ellipse && {
+    ellipse: {
+      ...shape.ellipse,
+      center: { x: shape.ellipse.center.x + dx, y: shape.ellipse.center.y + dy },
+    },
+  }),
+});
+
+/** Build the submit payload for a shape drawn against the given frame */
+export const toRegionPayload = (shape: Shape, frame: FrameSize): RegionPayload => {
+  const pixelPoints = shape.points.map((point) => toPixelPoint(point, frame));
+  return {
+    ...shape,
+    frame,
+    pixelPoints,
+    ...(shape.type === "line" && { direction: getCrossingDirection(pixelPoints, shape.flipped) }),
+    ...(shape.ellipse && { pixelEllipse: toPixelEllipse(shape.ellipse, frame) }),
+    ...(shape.holes && {
+      pixelHoles: shape.holes.map((hole) => hole.map((point) => toPixelPoint(point, frame))),
+    }),
+  };
+};
+
+export const pointSchema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+});
+
+export const frameSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const regionMetadataSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+  category: z.enum(["entry-zone", "exclusion", "counting-line", "other"]),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a #rrggbb color"),
+  tags: z.array(z.string().trim().min(1).max(32)).max(20),
+});
+
+export const ellipseSchema = z.object({
+  center: pointSchema,
+  rx: z.number().finite().nonnegative(),
+  ry: z.number().finite().nonnegative(),
+  rotation: z.number().finite(),
+});
+
+export const shapeSchema = regionMetadataSchema.extend({
+  id: z.string().min(1),
+  type: z.enum(["rectangle", "square", "polygon", "line", "circle", "ellipse", "none"]),
+  points: z.array(pointSchema).min(2),
+  flipped: z.boolean().optional(),
+  ellipse: ellipseSchema.optional(),
+  rotation: z.number().finite().optional(),
+  holes: z.array(z.array(pointSchema).min(4)).optional(),
+});
+
+export const regionPayloadSchema = shapeSchema.extend({
+  frame: frameSchema,
+  pixelPoints: z.array(pointSchema).min(2),
+  direction: pointSchema.optional(),
+  pixelEllipse: ellipseSchema.optional(),
+  pixelHoles: z.array(z.array(pointSchema).min(4)).optional(),
+});
+
+const imageDataUrlSchema = z
+  .string()
+  .regex(/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/, "Expected a PNG or JPEG data URL");
+
+export const snapshotSchema = z.object({
+  frame: imageDataUrlSchema,
+  annotated: imageDataUrlSchema,
+  capturedAt: z.string().datetime(),
+});
+
+export const regionListSchema = z.object({
+  shapes: z.array(regionPayloadSchema),
+  snapshot: snapshotSchema.optional(),
+});
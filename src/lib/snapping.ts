@@ -0,0 +1,221 @@
+import { z } from "zod";
+import type { Point } from "@/lib/regions";
+import { distance, getBounds, lerp, projectOntoSegment, type Bounds } from "@/lib/geometry";
+
+/**
+ * Snapping aids for the drawing canvas: a grid, the vertices and edges of
+ * other shapes, and alignment guides. Like the geometry helpers these are
+ * coordinate-space agnostic; the canvas calls them in source (video) pixels.
+ */
+
+/** Which snapping aids are switched on in the toolbar */
+export type SnapSettings = {
+  showGrid: boolean;
+  snapToGrid: boolean;
+  snapToShapes: boolean;
+  showGuides: boolean;
+};
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  showGrid: false,
+  snapToGrid: false,
+  snapToShapes: false,
+  showGuides: false,
+};
+
+const snapSettingsSchema = z.object({
+  showGrid: z.boolean(),
+  snapToGrid: z.boolean(),
+  snapToShapes: z.boolean(),
+  showGuides: z.boolean(),
+});
+
+const SNAP_SETTINGS_KEY = "drawing-canvas:snapping";
+
+/** Read the snapping toggles last used on this device */
+export const loadSnapSettings = (): SnapSettings => {
+  try {
+    const raw = window.localStorage.getItem(SNAP_SETTINGS_KEY);
+    const parsed = snapSettingsSchema.safeParse(raw ? JSON.parse(raw) : null);
+    return parsed.success ? parsed.data : DEFAULT_SNAP_SETTINGS;
+  } catch {
+    return DEFAULT_SNAP_SETTINGS;
+  }
+};
+
+export const saveSnapSettings = (settings: SnapSettings) => {
+  try {
+    window.localStorage.setItem(SNAP_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or unavailable; the settings then last until the page is reloaded
+  }
+};
+
+/** Alignment lines: x positions of vertical lines and y positions of horizontal ones */
+export type Guides = { x: number[]; y: number[] };
+
+export const NO_GUIDES: Guides = { x: [], y: [] };
+
+/**
+ * What another shape offers to snap to: the points worth landing on exactly
+ * (corners, vertices, a circle's center and axis ends) and its outline.
+ */
+export type SnapTarget = { vertices: Point[]; outline: Point[] };
+
+// Grid spacings to pick from, in source pixels
+const GRID_STEPS = [5, 10, 20, 25, 50, 100, 200, 250, 500];
+
+/**
+ * The finest grid spacing whose lines are still `minSpacing` apart on screen.
+ *
+ * @param scale - Source pixels per screen pixel.
+ */
+export const pickGridSize = (scale: number, minSpacing = 16): number =>
+  GRID_STEPS.find((step) => step / scale >= minSpacing) ?? GRID_STEPS[GRID_STEPS.length - 1];
+
+/** Nearest grid intersection */
+export const snapToGrid = (p: Point, size: number): Point => ({
+  x: Math.round(p.x / size) * size,
+  y: Math.round(p.y / size) * size,
+});
+
+/**
+ * Hold the segment from → to at the nearest multiple of `step` radians
+ * (0/45/90° by default), keeping how far along that direction the cursor is.
+ */
+export const constrainAngle = (from: Point, to: Point, step = Math.PI / 4): Point => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+  const length = dx * Math.cos(angle) + dy * Math.sin(angle);
+  return { x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length };
+};
+
+/**
+ * Closest vertex within the tolerance, or failing that the closest point on
+ * an outline; vertices win so corners are easy to hit exactly.
+ *
+ * @returns The snapped point, or null when nothing is close enough.
+ */
+export const snapToShapes = (p: Point, targets: SnapTarget[], tolerance: number): Point | null => {
+  let best: Point | null = null;
+  let bestDistance = tolerance;
+  for (const { vertices } of targets) {
+    for (const vertex of vertices) {
+      const d = distance(p, vertex);
+      if (d <= bestDistance) {
+        best = vertex;
+        bestDistance = d;
+      }
+    }
+  }
+  if (best) return best;
+
+  for (const { outline } of targets) {
+    for (let i = 0; i < outline.length - 1; i++) {
+      const onEdge = lerp(outline[i], outline[i + 1], projectOntoSegment(p, outline[i], outline[i + 1]));
+      const d = distance(p, onEdge);
+      if (d <= bestDistance) {
+        best = onEdge;
+        bestDistance = d;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Shift that lands one of the moving points on a target vertex or edge,
+ * whichever needs the smallest move.
+ *
+ * @returns The offset to apply, or null when no point is close enough.
+ */
+export const snapPointsToShapes = (
+  points: Point[],
+  targets: SnapTarget[],
+  tolerance: number
+): Point | null => {
+  let best: Point | null = null;
+  let bestDistance = Infinity;
+  for (const p of points) {
+    const snapped = snapToShapes(p, targets, tolerance);
+    if (!snapped) continue;
+    const d = distance(p, snapped);
+    if (d < bestDistance) {
+      best = { x: snapped.x - p.x, y: snapped.y - p.y };
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+/** Lines other shapes can be aligned with: their vertices, bounding edges and centers */
+export const getAlignmentLines = (targets: SnapTarget[]): Guides => {
+  const x: number[] = [];
+  const y: number[] = [];
+  for (const { vertices, outline } of targets) {
+    if (outline.length === 0) continue;
+    const { minX, minY, maxX, maxY } = getBounds(outline);
+    x.push(minX, (minX + maxX) / 2, maxX, ...vertices.map((v) => v.x));
+    y.push(minY, (minY + maxY) / 2, maxY, ...vertices.map((v) => v.y));
+  }
+  return { x, y };
+};
+
+/**
+ * The best match between any of `values` and any of `lines`, within the tolerance.
+ *
+ * @returns The line and how far to move onto it, or null.
+ */
+const closestLine = (values: number[], lines: number[], tolerance: number) => {
+  let best: { line: number; delta: number } | null = null;
+  for (const value of values) {
+    for (const line of lines) {
+      const delta = line - value;
+      if (Math.abs(delta) <= tolerance && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { line, delta };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Move a point onto the nearest alignment line on each axis, if one is
+ * within the tolerance.
+ *
+ * @returns The aligned point and the lines it now sits on.
+ */
+export const alignPoint = (
+  p: Point,
+  lines: Guides,
+  tolerance: number
+): { point: Point; guides: Guides } => {
+  const x = closestLine([p.x], lines.x, tolerance);
+  const y = closestLine([p.y], lines.y, tolerance);
+  return {
+    point: { x: x?.line ?? p.x, y: y?.line ?? p.y },
+    guides: { x: x ? [x.line] : [], y: y ? [y.line] : [] },
+  };
+};
+
+/**
+ * Align a moving box the way design tools do: its left, center and right
+ * (and top, middle and bottom) are matched against the lines, and the
+ * closest match on each axis decides the shift.
+ *
+ * @returns The offset to apply to the box and the lines it lines up with.
+ */
+export const alignBounds = (
+  bounds: Bounds,
+  lines: Guides,
+  tolerance: number
+): { offset: Point; guides: Guides } => {
+  const { minX, minY, maxX, maxY } = bounds;
+  const x = closestLine([minX, (minX + maxX) / 2, maxX], lines.x, tolerance);
+  const y = closestLine([minY, (minY + maxY) / 2, maxY], lines.y, tolerance);
+  return {
+    offset: { x: x?.delta ?? 0, y: y?.delta ?? 0 },
+    guides: { x: x ? [x.line] : [], y: y ? [y.line] : [] },
+  };
+};
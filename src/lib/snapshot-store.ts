@@ -0,0 +1,64 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { FrameSnapshot } from "@/lib/regions";
+
+/**
+ * File-backed store for captured video frames.
+ *
+ * Each snapshot is written as two image files under `data/snapshots/`,
+ * the raw frame and the frame with the regions drawn on top, plus a small
+ * JSON file with its metadata. Regions reference snapshots by id.
+ */
+const SNAPSHOT_DIR = path.join(process.cwd(), "data", "snapshots");
+
+export type SnapshotImage = "frame" | "annotated";
+
+type SnapshotMeta = {
+  id: string;
+  capturedAt: string;
+  images: Record<SnapshotImage, { file: string; mimeType: string }>;
+};
+
+const decodeDataUrl = (dataUrl: string) => {
+  const [header, base64] = dataUrl.split(",");
+  const mimeType = header.slice("data:".length, header.indexOf(";"));
+  return { mimeType, data: Buffer.from(base64, "base64") };
+};
+
+const metaFile = (id: string) => path.join(SNAPSHOT_DIR, `${id}.json`);
+
+/** Write a snapshot's images to disk and resolve to its new id */
+export async function saveSnapshot(snapshot: FrameSnapshot): Promise<string> {
+  const id = uuidv4();
+  await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+
+  const images = {} as SnapshotMeta["images"];
+  for (const kind of ["frame", "annotated"] as const) {
+    const { mimeType, data } = decodeDataUrl(snapshot[kind]);
+    const file = `${id}-${kind}.${mimeType === "image/png" ? "png" : "jpg"}`;
+    await fs.writeFile(path.join(SNAPSHOT_DIR, file), data);
+    images[kind] = { file, mimeType };
+  }
+
+  const meta: SnapshotMeta = { id, capturedAt: snapshot.capturedAt, images };
+  await fs.writeFile(metaFile(id), JSON.stringify(meta, null, 2), "utf-8");
+  return id;
+}
+
+/** Read one image of a snapshot; resolves to null when the id is unknown */
+export async function readSnapshotImage(
+  id: string,
+  kind: SnapshotImage
+): Promise<{ data: Buffer; mimeType: string } | null> {
+  // Ids are uuids; anything else could escape the snapshot directory
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+  try {
+    const meta = JSON.parse(await fs.readFile(metaFile(id), "utf-8")) as SnapshotMeta;
+    const { file, mimeType } = meta.images[kind];
+    return { data: await fs.readFile(path.join(SNAPSHOT_DIR, file)), mimeType };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+/**
+ * Where the drawing canvas gets its picture from.
+ *
+ * - `auto`: the default webcam, falling back to the public HLS test stream
+ * - `camera`: a specific video input from `enumerateDevices()`
+ * - `url`: an HLS (.m3u8) or progressive (MP4/WebM) stream URL
+ * - `file`: a local video or image; the File itself only lives in memory,
+ *   so after a reload the user is asked to pick it again
+ */
+export type VideoSource =
+  | { kind: "auto" }
+  | { kind: "camera"; deviceId: string; label: string }
+  | { kind: "url"; url: string }
+  | { kind: "file"; name: string; mediaType: "video" | "image"; file?: File };
+
+export const DEFAULT_VIDEO_SOURCE: VideoSource = { kind: "auto" };
+
+/** Stream used when no webcam is available */
+export const FALLBACK_HLS_URL = "https://test-streams.mux.dev/x36xhzz/x36xhzz.m3u8";
+
+export const isHlsUrl = (url: string) => /\.m3u8($|\?)/i.test(url);
+
+/** Short human-readable description of a source, for the toolbar */
+export const describeVideoSource = (source: VideoSource): string => {
+  switch (source.kind) {
+    case "auto":
+      return "Default camera";
+    case "camera":
+      return source.label || "Camera";
+    case "url":
+      return source.url;
+    case "file":
+      return source.name;
+  }
+};
+
+const storedSourceSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("auto") }),
+  z.object({ kind: z.literal("camera"), deviceId: z.string(), label: z.string() }),
+  z.object({ kind: z.literal("url"), url: z.string().url() }),
+  z.object({ kind: z.literal("file"), name: z.string(), mediaType: z.enum(["video", "image"]) }),
+]);
+
+const storageKey = (workspaceId: string) => `drawing-canvas:video-source:${workspaceId}`;
+
+/** A configured stream URL as a source; no URL means the default camera */
+export const videoSourceFromUrl = (url: string): VideoSource =>
+  url ? { kind: "url", url } : DEFAULT_VIDEO_SOURCE;
+
+/** Read the source last chosen in a workspace, or the fallback */
+export const loadVideoSource = (
+  workspaceId: string,
+  fallback: VideoSource = DEFAULT_VIDEO_SOURCE
+): VideoSource => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(workspaceId));
+    const parsed = storedSourceSchema.safeParse(raw ? JSON.parse(raw) : null);
+    return parsed.success ? parsed.data : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/** Remember the chosen source for a workspace (the File of a local file is dropped) */
+export const saveVideoSource = (workspaceId: string, source: VideoSource) => {
+  const stored =
+    source.kind === "file"
+      ? { kind: source.kind, name: source.name, mediaType: source.mediaType }
+      : source;
+  try {
+    window.localStorage.setItem(storageKey(workspaceId), JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable; the workspace then starts from its configured source
+  }
+};
+
+/** Forget the chosen source, so the workspace falls back to its configured one */
+export const clearVideoSource = (workspaceId: string) => {
+  try {
+    window.localStorage.removeItem(storageKey(workspaceId));
+  } catch {
+    // Storage unavailable, so there is nothing remembered to forget
+  }
+};
@@ -0,0 +1,66 @@
+import type { ComponentType } from "react";
+import type { LucideIcon } from "lucide-react";
+import type { z } from "zod";
+
+/**
+ * Registry of the widget types a dashboard can hold. The grid and the
+ * sidebar are both driven from it, so a new widget type only needs a
+ * definition and a `registerWidget` call (see `src/components/widgets.ts`).
+ */
+
+/** A size on the 12-column dashboard grid, in grid units */
+export type GridSize = { w: number; h: number };
+
+/** Props every widget component receives from the grid */
+export type WidgetProps<TConfig> = {
+  // Id of the widget on its dashboard; also the key of its grid item
+  id: string;
+  config: TConfig;
+};
+
+export type WidgetDefinition<TConfig = unknown> = {
+  // Stored as the `componentName` of every widget of this type, so it must never change
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  defaultSize: GridSize;
+  minSize: GridSize;
+  // Validates the per-widget settings stored on the dashboard; may fill in
+  // defaults for settings that configs saved by older versions lack
+  configSchema: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+  defaultConfig: TConfig;
+  component: ComponentType<WidgetProps<TConfig>>;
+};
+
+/** Identity helper that infers a definition's config type from its schema */
+export const defineWidget = <TConfig>(definition: WidgetDefinition<TConfig>) => definition;
+
+/** Size used for widgets whose type isn't registered */
+export const FALLBACK_WIDGET_SIZE: { defaultSize: GridSize; minSize: GridSize } = {
+  defaultSize: { w: 4, h: 2 },
+  minSize: { w: 2, h: 1 },
+};
+
+const registry = new Map<string, WidgetDefinition>();
+
+/**
+ * Add a widget type. Registering an id again replaces its definition, which
+ * is what happens when a definition module is hot-reloaded.
+ */
+export const registerWidget = <TConfig>(definition: WidgetDefinition<TConfig>) => {
+  registry.set(definition.id, definition as WidgetDefinition<unknown>);
+};
+
+export const getWidget = (id: string): WidgetDefinition | undefined => registry.get(id);
+
+/** Every registered widget type, in registration order */
+export const listWidgets = (): WidgetDefinition[] => [...registry.values()];
+
+/**
+ * A widget's stored settings, checked against its type's schema. Missing or
+ * invalid settings (e.g. saved by an older version) fall back to the defaults.
+ */
+export const readWidgetConfig = <TConfig>(definition: WidgetDefinition<TConfig>, config: unknown): TConfig => {
+  const parsed = definition.configSchema.safeParse(config ?? definition.defaultConfig);
+  return parsed.success ? parsed.data : definition.defaultConfig;
+};
@@ -1,26 +1,229 @@
-import { createContext, ReactNode, useState } from "react";
+import { createContext, ReactNode, SetStateAction, useCallback, useEffect, useRef, useState } from "react";
 import { v4 as uuidv4 } from 'uuid';
-
-type componentItem = {
-    _id: string,
-    componentName: string,
-}
+import { toast } from "sonner";
+import {
+    DEFAULT_DASHBOARD_ID,
+    dashboardChannelName,
+    toDashboardLayout,
+    type ComponentItem,
+    type Dashboard,
+    type DashboardContent,
+    type DashboardMessage,
+    type LayoutItem,
+} from "@/lib/dashboards";
 
 export const ComponentContext = createContext<{
-    componentList: componentItem[],
+    dashboardId: string,
+    // Name of the dashboard, empty until it has loaded
+    name: string,
+    componentList: ComponentItem[],
+    layout: LayoutItem[],
+    // False until the saved dashboard has been loaded
+    isLoaded: boolean,
     addComponent: (componentType: string) => void,
-    deleteComponent: (id: string) => void
+    deleteComponent: (id: string) => void,
+    // Replace a widget's settings; validating them is up to the widget type
+    updateComponentConfig: (id: string, config: Record<string, unknown>) => void,
+    updateLayout: (layout: SetStateAction<LayoutItem[]>) => void
 }>({
+    dashboardId: DEFAULT_DASHBOARD_ID,
+    name: "",
     componentList: [],
+    layout: [],
+    isLoaded: false,
     addComponent: () => {},
-    deleteComponent: () => {}
+    deleteComponent: () => {},
+    updateComponentConfig: () => {},
+    updateLayout: () => {}
 });
 
-const initialComponentList:Array<componentItem> = [{_id: uuidv4(), componentName: "BarChartComponent"}];
+// Changes are saved once they have settled for this long
+const AUTOSAVE_DELAY = 500;
+
+// Only one conflict is asked about at a time, so its toast is updated in place
+const CONFLICT_TOAST_ID = "dashboard-conflict";
+
+/** Comparable form of a dashboard's content, as it is saved */
+const serialize = ({ componentList, layout }: DashboardContent) =>
+    JSON.stringify({ componentList, layout: toDashboardLayout(layout) });
+
+/**
+ * Widgets and grid layout of one dashboard, loaded from and autosaved to
+ * /api/dashboards. Saves and renames from other tabs of this browser arrive
+ * over a BroadcastChannel; those from elsewhere are picked up when the tab
+ * comes back into view, or surface as a conflict on the next save. A conflict
+ * keeps the local edits and pauses autosave until the user either loads the
+ * stored copy or overwrites it with theirs.
+ *
+ * Give the provider a `key` of its dashboard id: state loaded for one
+ * dashboard must never be autosaved to another.
+ */
+export default function HandleComponentContextProvider({
+    children,
+    dashboardId = DEFAULT_DASHBOARD_ID
+}: {
+    children: ReactNode,
+    dashboardId?: string
+}) {
+    const [name, setName] = useState("");
+    const [componentList, setComponentList] = useState<ComponentItem[]>([]);
+    const [layout, setLayout] = useState<LayoutItem[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    // Revision of the stored copy this tab's changes are based on
+    const revisionRef = useRef(0);
+    // Content as last saved or loaded; autosave skips state that still matches it
+    const savedRef = useRef<string | null>(null);
+    // Saves go out one at a time, so each is based on the revision the previous one produced
+    const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    // Stored copy the last save conflicted with, until the user picks a side
+    const [conflict, setConflict] = useState<Dashboard | null>(null);
+    const conflictRef = useRef<Dashboard | null>(null);
+    const url = `/api/dashboards/${encodeURIComponent(dashboardId)}`;
+
+    /** Replace the whole state with a stored copy of the dashboard */
+    const hydrate = useCallback((dashboard: Dashboard) => {
+        revisionRef.current = dashboard.revision;
+        savedRef.current = serialize(dashboard);
+        setName(dashboard.name);
+        setComponentList(dashboard.componentList);
+        setLayout(dashboard.layout);
+        setIsLoaded(true);
+    }, []);
+
+    const updateConflict = useCallback((dashboard: Dashboard | null) => {
+        conflictRef.current = dashboard;
+        setConflict(dashboard);
+    }, []);
+
+    /** Newer stored copies replace the local state, or the copy a pending conflict is about */
+    const receive = useCallback((dashboard: Dashboard) => {
+        if (dashboard.revision <= revisionRef.current) return;
+        if (conflictRef.current) updateConflict(dashboard);
+        else hydrate(dashboard);
+    }, [hydrate, updateConflict]);
+
+    const fetchDashboard = useCallback(async () => {
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+        const { dashboard } = (await res.json()) as { dashboard: Dashboard };
+        return dashboard;
+    }, [url]);
+
+    // Load the saved dashboard and follow the saves made elsewhere
+    useEffect(() => {
+        let ignore = false;
+        fetchDashboard()
+            .then((dashboard) => {
+                if (!ignore) hydrate(dashboard);
+            })
+            .catch((err) => {
+                console.error("Failed to load dashboard:", err);
+                toast.error("Could not load the saved dashboard.");
+            });
+
+        const channel = new BroadcastChannel(dashboardChannelName(dashboardId));
+        channel.onmessage = (event: MessageEvent<DashboardMessage>) => {
+            const message = event.data;
+            if (message.type === "renamed") setName(message.name);
+            else receive(message.dashboard);
+        };
+        channelRef.current = channel;
+
+        const handleVisibilityChange = () => {
+            if (document.visibilityState !== "visible") return;
+            fetchDashboard()
+                .then((dashboard) => {
+                    if (ignore) return;
+                    // A rename elsewhere leaves the revision as it was
+                    if (dashboard.revision > revisionRef.current) receive(dashboard);
+                    else setName(dashboard.name);
+                })
+                .catch((err) => console.error("Failed to refresh dashboard:", err));
+        };
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+
+        return () => {
+            ignore = true;
+            channel.close();
+            channelRef.current = null;
+            document.removeEventListener("visibilitychange", handleVisibilityChange);
+        };
+    }, [dashboardId, fetchDashboard, hydrate, receive]);
+
+    // Autosave whenever the widgets or the layout change
+    useEffect(() => {
+        if (!isLoaded || conflict) return;
+        // Widgets the grid hasn't placed yet have no real position to save
+        if (layout.some(item => !Number.isFinite(item.y))) return;
+        const content = serialize({ componentList, layout });
+        if (content === savedRef.current) return;
+
+        const save = async () => {
+            // A newer copy may have arrived while this save was queued
+            if (content === savedRef.current) return;
+            try {
+                const res = await fetch(url, {
+                    method: "PUT",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        componentList,
+                        layout: toDashboardLayout(layout),
+                        revision: revisionRef.current
+                    }),
+                });
+                if (res.status === 409) {
+                    const { dashboard } = (await res.json()) as { dashboard: Dashboard };
+                    updateConflict(dashboard);
+                    return;
+                }
+                if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+                const { dashboard } = (await res.json()) as { dashboard: Dashboard };
+                revisionRef.current = dashboard.revision;
+                savedRef.current = content;
+                channelRef.current?.postMessage({ type: "saved", dashboard } satisfies DashboardMessage);
+            } catch (err) {
+                console.error("Failed to save dashboard:", err);
+                toast.error("Could not save the dashboard.");
+            }
+        };
+
+        const timer = setTimeout(() => {
+            saveQueueRef.current = saveQueueRef.current.then(save);
+        }, AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [componentList, layout, isLoaded, conflict, url, updateConflict]);
+
+    /** Drop the local edits for the stored copy */
+    const loadTheirs = useCallback(() => {
+        if (!conflictRef.current) return;
+        hydrate(conflictRef.current);
+        updateConflict(null);
+    }, [hydrate, updateConflict]);
+
+    /** Save the local edits over the stored copy; autosave resumes based on its revision */
+    const overwriteWithMine = useCallback(() => {
+        if (!conflictRef.current) return;
+        revisionRef.current = conflictRef.current.revision;
+        setName(conflictRef.current.name);
+        updateConflict(null);
+    }, [updateConflict]);
+
+    // Ask which side of a conflict to keep; the edits stay on screen meanwhile
+    useEffect(() => {
+        if (!conflict) return;
+        toast.warning("This dashboard was changed in another tab. Your changes here are not saved yet.", {
+            id: CONFLICT_TOAST_ID,
+            duration: Infinity,
+            dismissible: false,
+            action: { label: "Overwrite with mine", onClick: overwriteWithMine },
+            cancel: { label: "Load theirs", onClick: loadTheirs },
+        });
+        return () => {
+            toast.dismiss(CONFLICT_TOAST_ID);
+        };
+    }, [conflict, loadTheirs, overwriteWithMine]);
 
-export default function HandleComponentContextProvider({children}:{children: ReactNode}) {
-    const [componentList, setComponentList] = useState(initialComponentList);
-    
     const addComponent = (componentType: string) => {
         setComponentList(prev => {
             const item = {
@@ -37,11 +240,23 @@ export default function HandleComponentContextProvider({children}:{children: Rea
         })
     }
 
+    const updateComponentConfig = (id: string, config: Record<string, unknown>) => {
+        setComponentList(prev => {
+            return prev.map(item => item._id === id ? { ...item, config } : item);
+        })
+    }
+
     const ctxValue = {
+        dashboardId,
+        name,
         componentList,
+        layout,
+        isLoaded,
         addComponent,
-        deleteComponent
+        deleteComponent,
+        updateComponentConfig,
+        updateLayout: setLayout
     }
 
     return <ComponentContext.Provider value={ctxValue}>{children}</ComponentContext.Provider>
-}
\ No newline at end of file
+}